@@ -2,20 +2,28 @@
 
 import { promises as fs } from "node:fs";
 import { createRequire } from "node:module";
-import { basename, dirname, resolve } from "node:path";
+import { basename, dirname, extname, resolve } from "node:path";
 import process from "node:process";
 import {
 	type Config,
+	type ConvertInput,
 	type ConvertResult,
 	closeBrowser,
 	convertMdToPdf,
 	defaultConfig,
 	formatConversionInfo,
+	formatMakeDependencies,
 	resolveFileRefs,
 } from "@mdforge/core";
 import arg from "arg";
 import Listr from "listr";
 import YAML from "yaml";
+import { watchDependencies } from "./watch.js";
+
+/**
+ * Name of the single conversion target in book mode
+ */
+const BOOK_TARGET = "book";
 
 const help = (): void =>
 	console.log(`
@@ -28,7 +36,12 @@ const help = (): void =>
     -o, --output <path>     Output file path (only for single file)
     --as-html               Output as HTML instead of PDF
     --fillable              Generate fillable PDF with AcroForm fields
+    --no-accessibility      Don't check accessibility (alt text, headings, ...)
+    --password <env-var>    Encrypt the PDF with the password in an environment variable
     --config-file <path>    Path to a YAML configuration file
+    -w, --watch             Rebuild when the input or any file it uses changes
+    --deps                  Write a Makefile-style .d file next to each output
+    --book                  Combine all files into one document (book mode)
 
   Examples:
 
@@ -37,6 +50,9 @@ const help = (): void =>
     $ mdforge *.md
     $ mdforge --as-html README.md
     $ mdforge --config-file config.yaml docs/*.md
+    $ mdforge --watch report.md
+    $ mdforge --book -o book.pdf intro.md chapters/*.md
+    $ PDF_PASSWORD=secret mdforge --password PDF_PASSWORD contract.md
 
   Config files use YAML format:
 
@@ -58,12 +74,18 @@ const cliSpec = {
 	"--output": String,
 	"--as-html": Boolean,
 	"--fillable": Boolean,
+	"--no-accessibility": Boolean,
+	"--password": String,
 	"--config-file": String,
+	"--watch": Boolean,
+	"--deps": Boolean,
+	"--book": Boolean,
 
 	// aliases
 	"-h": "--help",
 	"-v": "--version",
 	"-o": "--output",
+	"-w": "--watch",
 } as const;
 
 export const cliFlags: arg.Result<typeof cliSpec> = arg(cliSpec);
@@ -93,26 +115,174 @@ async function main(args: typeof cliFlags): Promise<void> {
 	}
 
 	const files = args._;
+	const isBook = args["--book"] === true;
 
-	if (files.length === 0) {
+	if (files.length === 0 && !isBook) {
 		return help();
 	}
 
-	if (args["--output"] && files.length > 1) {
+	if (args["--output"] && files.length > 1 && !isBook) {
 		console.error("Error: --output can only be used with a single input file");
 		process.exit(1);
 	}
 
+	// Files read while loading the config file (the file itself and @file references)
+	const configDependencies = new Set<string>();
+	let config = await loadConfig(args, configDependencies);
+
+	if (isBook && files.length === 0 && !config.book?.files?.length) {
+		console.error(
+			"Error: --book needs chapter files, as arguments or in book.files of the config file",
+		);
+		process.exit(1);
+	}
+
+	// In book mode all files are converted together as a single target
+	const jobs = isBook ? [BOOK_TARGET] : files;
+
+	// Store results for info display
+	const results: Map<string, ConvertResult> = new Map();
+
+	// Dependencies of each input from its last successful build
+	const dependencies: Map<string, string[]> = new Map();
+
+	// Chapters given as arguments take precedence over book.files
+	const getInput = (file: string): ConvertInput =>
+		isBook
+			? {
+					book:
+						files.length > 0
+							? files.map((chapter) => resolve(chapter))
+							: (config.book?.files ?? []),
+				}
+			: { path: file };
+
+	const getListrTask = (file: string): Listr.ListrTask => ({
+		title: `generating ${args["--as-html"] ? "HTML" : "PDF"} from ${basename(file)}`,
+		task: async (): Promise<ConvertResult> => {
+			const result = await convertMdToPdf(getInput(file), config, { args });
+			results.set(file, result);
+			dependencies.set(
+				file,
+				result.info.dependencies.map((dep) => dep.path),
+			);
+			if (args["--deps"]) {
+				await writeDepFile(result);
+			}
+			return result;
+		},
+	});
+
+	const build = async (targets: string[]): Promise<void> => {
+		await new Listr(targets.map(getListrTask), {
+			concurrent: true,
+			exitOnError: false,
+		}).run();
+	};
+
+	if (!args["--watch"]) {
+		await build(jobs).finally(async () => {
+			await closeBrowser();
+		});
+
+		for (const [file, result] of results) {
+			printResult(file, result, jobs.length > 1);
+		}
+		return;
+	}
+
+	// Watch mode: keep the browser alive and rebuild on changes.
+	// A failed build is reported, the previous dependencies stay watched.
+	const rebuild = async (targets: string[]): Promise<void> => {
+		for (const file of targets) results.delete(file);
+		try {
+			await build(targets);
+		} catch {
+			// Listr has already printed the failed task(s)
+		}
+		for (const file of targets) {
+			const result = results.get(file);
+			if (result) printResult(file, result, targets.length > 1);
+		}
+	};
+
+	// The input files of a target, watched even before a build succeeded.
+	// Globs in book.files are only known from the build's dependencies
+	const getInputFiles = (file: string): string[] => {
+		if (!isBook) return [resolve(file)];
+		if (files.length > 0) return files.map((chapter) => resolve(chapter));
+		return (config.book?.files ?? [])
+			.filter((chapter) => !/[*?[\]{}]/.test(chapter))
+			.map((chapter) => resolve(config.basedir, chapter));
+	};
+
+	const getWatchedFiles = (): Set<string> => {
+		const watched = new Set(configDependencies);
+		for (const file of jobs) {
+			for (const input of getInputFiles(file)) watched.add(input);
+			for (const dependency of dependencies.get(file) ?? []) {
+				watched.add(dependency);
+			}
+		}
+		return watched;
+	};
+
+	process.on("SIGINT", () => {
+		closeBrowser()
+			.catch(() => {
+				// Exiting anyway
+			})
+			.finally(() => process.exit(0));
+	});
+
+	await rebuild(jobs);
+	console.log("\nWatching for changes... (press Ctrl+C to stop)");
+
+	watchDependencies(getWatchedFiles, async (changed) => {
+		console.log(
+			`\n${changed.map((file) => basename(file)).join(", ")} changed, rebuilding...`,
+		);
+
+		// A changed config file affects every input
+		if (changed.some((file) => configDependencies.has(file))) {
+			configDependencies.clear();
+			config = await loadConfig(args, configDependencies);
+			await rebuild(jobs);
+			return;
+		}
+
+		await rebuild(
+			jobs.filter((file) => {
+				const used = [
+					...getInputFiles(file),
+					...(dependencies.get(file) ?? []),
+				];
+				return changed.some((path) => used.includes(path));
+			}),
+		);
+	});
+}
+
+/**
+ * Build the config from defaults, the config file and CLI flags.
+ * Files read from disk are added to the dependencies set.
+ */
+async function loadConfig(
+	args: typeof cliFlags,
+	dependencies: Set<string>,
+): Promise<Config> {
 	let config: Config = { ...defaultConfig };
 
 	if (args["--config-file"]) {
 		try {
 			const configFilePath = resolve(args["--config-file"]);
 			const configDir = dirname(configFilePath);
+			dependencies.add(configFilePath);
 			const configContent = await fs.readFile(configFilePath, "utf-8");
 			const configFile = await resolveFileRefs(
 				YAML.parse(configContent) as Partial<Config>,
 				configDir,
+				(path) => dependencies.add(path),
 			);
 
 			// Set basedir from config file location if not explicitly set
@@ -149,46 +319,66 @@ async function main(args: typeof cliFlags): Promise<void> {
 		config.dest = resolve(args["--output"]);
 	}
 
-	// Store results for info display
-	const results: Map<string, ConvertResult> = new Map();
+	// CLI --password names an environment variable, so the password stays
+	// out of the shell history and process list
+	const passwordVariable = args["--password"];
+	if (passwordVariable) {
+		const password = process.env[passwordVariable];
+		if (!password) {
+			console.error(
+				`Error: --password needs the environment variable ${passwordVariable} to be set`,
+			);
+			process.exit(1);
+		}
+		config.security = { ...config.security, user_password: password };
+	}
 
-	const getListrTask = (file: string): Listr.ListrTask => ({
-		title: `generating ${args["--as-html"] ? "HTML" : "PDF"} from ${basename(file)}`,
-		task: async (): Promise<ConvertResult> => {
-			const result = await convertMdToPdf({ path: file }, config, { args });
-			results.set(file, result);
-			return result;
-		},
-	});
+	return config;
+}
 
-	await new Listr(files.map(getListrTask), {
-		concurrent: true,
-		exitOnError: false,
-	})
-		.run()
-		.finally(async () => {
-			await closeBrowser();
-		});
+/**
+ * Write the dependencies of a conversion as a Makefile rule,
+ * e.g. docs/report.pdf → docs/report.d
+ */
+async function writeDepFile(result: ConvertResult): Promise<void> {
+	const output = result.info.output?.path;
+	if (!output || output === "stdout") return;
+
+	const target = resolve(output);
+	const depFile = `${target.slice(0, -extname(target).length || undefined)}.d`;
+	await fs.writeFile(
+		depFile,
+		formatMakeDependencies(target, result.info.dependencies),
+	);
+}
 
-	// Display conversion info for each file
-	for (const [file, result] of results) {
-		if (files.length > 1) {
-			console.log(`\n${basename(file)}:`);
-		}
+/**
+ * Display warnings and conversion info for a converted file.
+ */
+function printResult(
+	file: string,
+	result: ConvertResult,
+	showName: boolean,
+): void {
+	if (showName) {
+		console.log(`\n${basename(file)}:`);
+	}
 
-		// Display any warnings
-		if (result.info.warnings?.length > 0) {
-			for (const warning of result.info.warnings) {
-				console.warn(warning);
-			}
+	// Display any warnings
+	if (result.info.warnings?.length > 0) {
+		for (const warning of result.info.warnings) {
+			console.warn(warning);
 		}
+	}
+	for (const issue of result.info.accessibility) {
+		console.warn(`Accessibility: ${issue.message}`);
+	}
 
-		const infoText = formatConversionInfo(result.info);
-		if (infoText) {
-			console.log(infoText);
-		}
-		if (result.info.output?.path && result.info.output.path !== "stdout") {
-			console.log(`  → ${result.info.output.path}`);
-		}
+	const infoText = formatConversionInfo(result.info);
+	if (infoText) {
+		console.log(infoText);
+	}
+	if (result.info.output?.path && result.info.output.path !== "stdout") {
+		console.log(`  → ${result.info.output.path}`);
 	}
 }
@@ -0,0 +1,82 @@
+import { type FSWatcher, watch } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+/**
+ * Delay before rebuilding, so a burst of saves triggers a single rebuild
+ */
+const DEBOUNCE_MS = 200;
+
+/**
+ * Watch a set of files and call onChange with the files that changed.
+ *
+ * Directories are watched instead of the files themselves, so editors that
+ * save by replacing the file (write to temp + rename) are picked up too.
+ * The dependency set is re-read after every rebuild, so files added to or
+ * removed from the document (e.g. a new @include) are tracked automatically.
+ *
+ * @param getDependencies - Returns the absolute paths of all watched files
+ * @param onChange - Rebuild callback, never called concurrently
+ */
+export function watchDependencies(
+	getDependencies: () => Set<string>,
+	onChange: (changed: string[]) => Promise<void>,
+): void {
+	const watchers = new Map<string, FSWatcher>();
+	const pending = new Set<string>();
+	let timer: NodeJS.Timeout | undefined;
+	let building = false;
+
+	const flush = async (): Promise<void> => {
+		if (building || pending.size === 0) return;
+		building = true;
+		const changed = [...pending];
+		pending.clear();
+		try {
+			await onChange(changed);
+		} finally {
+			building = false;
+			updateWatchers();
+			// Changes that arrived during the rebuild
+			if (pending.size > 0) schedule();
+		}
+	};
+
+	const schedule = (): void => {
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(() => {
+			timer = undefined;
+			flush().catch(() => {
+				// onChange reports its own errors, keep watching
+			});
+		}, DEBOUNCE_MS);
+	};
+
+	const updateWatchers = (): void => {
+		const dirs = new Set([...getDependencies()].map((file) => dirname(file)));
+
+		for (const [dir, watcher] of watchers) {
+			if (!dirs.has(dir)) {
+				watcher.close();
+				watchers.delete(dir);
+			}
+		}
+
+		for (const dir of dirs) {
+			if (watchers.has(dir)) continue;
+			try {
+				const watcher = watch(dir, (_event, filename) => {
+					if (!filename) return;
+					const file = resolve(dir, filename.toString());
+					if (!getDependencies().has(file)) return;
+					pending.add(file);
+					schedule();
+				});
+				watchers.set(dir, watcher);
+			} catch {
+				// Directory doesn't exist (anymore), retried after the next rebuild
+			}
+		}
+	};
+
+	updateWatchers();
+}
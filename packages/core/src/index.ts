@@ -1,10 +1,19 @@
 import process from "node:process";
 import puppeteer from "puppeteer";
 import { type Config, defaultConfig } from "./lib/config.js";
-import { type ConvertResult, convertMdToPdf } from "./lib/convert.js";
+import {
+	type ConvertInput,
+	type ConvertResult,
+	convertMdToPdf,
+} from "./lib/convert.js";
 import { getDir } from "./lib/util.js";
 
 // Re-export types and utilities for CLI and other consumers
+export type {
+	AccessibilityIssue,
+	AccessibilityRule,
+} from "./lib/accessibility.js";
+export type { BookConfig } from "./lib/book.js";
 export {
 	type Config,
 	defaultConfig,
@@ -13,9 +22,16 @@ export {
 } from "./lib/config.js";
 export {
 	type ConversionInfo,
+	type DependencyInfo,
 	formatConversionInfo,
+	formatMakeDependencies,
 } from "./lib/conversion-info.js";
-export { type ConvertResult, convertMdToPdf } from "./lib/convert.js";
+export {
+	type ConvertInput,
+	type ConvertResult,
+	convertMdToPdf,
+} from "./lib/convert.js";
+export type { NamedDestination } from "./lib/destinations.js";
 export {
 	ConfigError,
 	FileNotFoundError,
@@ -34,13 +50,11 @@ export type { TemplatesConfig } from "./lib/includes.js";
 export type { PdfMetadata } from "./lib/pdf-metadata.js";
 export { resolveFileRefs } from "./lib/util.js";
 
-type Input = { content: string } | { path: string };
-
 /**
  * Convert markdown to PDF or HTML (library API).
  */
 export async function mdToPdf(
-	input: Input,
+	input: ConvertInput,
 	config: Partial<Config> = {},
 ): Promise<ConvertResult> {
 	const mergedConfig: Config = {
@@ -0,0 +1,173 @@
+/**
+ * Accessibility checks for mdforge.
+ *
+ * PDFs are tagged by Chrome, from the structure of the rendered HTML. The
+ * tags are only as good as that HTML, so it is checked before printing for
+ * what screen readers need: a title and language, alt text for images,
+ * heading levels in order, table headers, descriptive link text and form
+ * field labels.
+ */
+
+import type { Page } from "puppeteer";
+import { MARKER_URL_PREFIX } from "./form-fields.js";
+
+/**
+ * What the checks look for
+ */
+export const accessibilityRules = [
+	"document-title", // the document has a title
+	"document-language", // the document language is set
+	"image-alt", // images have alt text, or are marked as decorative
+	"heading-order", // heading levels are not skipped
+	"table-header", // tables have header cells
+	"link-text", // link text describes the target
+	"form-label", // form fields have a label
+] as const;
+export type AccessibilityRule = (typeof accessibilityRules)[number];
+
+/**
+ * An accessibility problem found in the rendered document
+ */
+export interface AccessibilityIssue {
+	rule: AccessibilityRule;
+	message: string;
+}
+
+/**
+ * Link texts that don't tell where the link goes, lower case
+ */
+const VAGUE_LINK_TEXTS: string[] = [
+	"click here",
+	"click",
+	"here",
+	"link",
+	"this link",
+	"this",
+	"more",
+	"read more",
+	"learn more",
+	"details",
+	"more info",
+];
+
+/**
+ * Check the rendered document for accessibility problems
+ */
+export async function checkAccessibility(
+	page: Page,
+): Promise<AccessibilityIssue[]> {
+	return page.evaluate(
+		(vagueLinkTexts: string[], markerPrefix: string): AccessibilityIssue[] => {
+			const found: AccessibilityIssue[] = [];
+			const textOf = (element: Element): string =>
+				(element.textContent ?? "").replace(/\s+/g, " ").trim();
+			const quote = (text: string): string =>
+				`"${text.length > 40 ? `${text.slice(0, 39)}…` : text}"`;
+
+			if (!document.title.trim()) {
+				found.push({
+					rule: "document-title",
+					message: "The document has no title: add a heading or metadata.title",
+				});
+			}
+			if (!document.documentElement.lang) {
+				found.push({
+					rule: "document-language",
+					message:
+						'The document language is not set: add metadata.language, e.g. "en"',
+				});
+			}
+
+			// ![](image.png) has an empty alt, decorative images need a role
+			const images = document.querySelectorAll(
+				"img:not([alt]), img[alt='']:not([role='presentation'], [role='none'])",
+			);
+			for (const image of Array.from(images)) {
+				const src = image.getAttribute("src") ?? "";
+				const name = src.startsWith("data:")
+					? "embedded image"
+					: (src.split(/[/?#]/).filter(Boolean).at(-1) ?? src);
+				found.push({
+					rule: "image-alt",
+					message: `Image ${quote(name)} has no alt text`,
+				});
+			}
+
+			let previousLevel = 0;
+			for (const heading of Array.from(
+				document.querySelectorAll("h1, h2, h3, h4, h5, h6"),
+			)) {
+				const level = Number(heading.tagName.slice(1));
+				if (previousLevel > 0 && level > previousLevel + 1) {
+					found.push({
+						rule: "heading-order",
+						message: `Heading ${quote(textOf(heading))} (h${level}) skips a level after h${previousLevel}`,
+					});
+				}
+				previousLevel = level;
+			}
+
+			for (const table of Array.from(document.querySelectorAll("table"))) {
+				if (table.querySelector("th")) continue;
+				const caption = table.caption ?? table.querySelector("td");
+				found.push({
+					rule: "table-header",
+					message: `Table ${caption ? `${quote(textOf(caption))} ` : ""}has no header cells`,
+				});
+			}
+
+			for (const link of Array.from(document.querySelectorAll("a[href]"))) {
+				const href = link.getAttribute("href") ?? "";
+				if (
+					href.startsWith(markerPrefix) ||
+					link.closest("[aria-hidden='true']")
+				) {
+					continue;
+				}
+				const label =
+					link.getAttribute("aria-label") ??
+					(textOf(link) ||
+						Array.from(link.querySelectorAll("img[alt]"))
+							.map((image) => image.getAttribute("alt"))
+							.join(" ")
+							.trim());
+				if (!label) {
+					found.push({
+						rule: "link-text",
+						message: `Link to ${quote(href)} has no text`,
+					});
+				} else if (
+					vagueLinkTexts.includes(label.toLowerCase().replace(/[.:!…]+$/, ""))
+				) {
+					found.push({
+						rule: "link-text",
+						message: `Link text ${quote(label)} doesn't describe the target ${quote(href)}`,
+					});
+				}
+			}
+
+			const fields = document.querySelectorAll<
+				HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+			>("input:not([type='hidden']), select, textarea");
+			for (const field of Array.from(fields)) {
+				const labelled =
+					field.getAttribute("aria-label") ||
+					field.getAttribute("aria-labelledby") ||
+					field.getAttribute("title") ||
+					Array.from(field.labels ?? []).some(
+						(label) => textOf(label) && textOf(label) !== textOf(field),
+					);
+				if (!labelled) {
+					found.push({
+						rule: "form-label",
+						message: `Form field ${quote(field.name || field.type)} has no label`,
+					});
+				}
+			}
+
+			return found;
+		},
+		VAGUE_LINK_TEXTS,
+		MARKER_URL_PREFIX,
+	);
+}
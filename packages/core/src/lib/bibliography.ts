@@ -0,0 +1,980 @@
+/**
+ * Citations and bibliography for mdforge.
+ *
+ * Pandoc-style citations are resolved against a BibTeX or CSL-JSON file:
+ *
+ *   [@smith2024]                → (Smith, 2024)
+ *   [@smith2024, p. 12]         → (Smith, 2024, p. 12)
+ *   [see @smith2024; @doe2023]  → (see Smith, 2024; Doe, 2023)
+ *   [-@smith2024]               → (2024)
+ *   @smith2024 shows ...        → Smith (2024) shows ...
+ *
+ * <!-- bibliography --> is replaced with the list of cited works.
+ */
+
+import { promises as fs } from "node:fs";
+import { extname } from "node:path";
+import { formatSourceLine, type SourceLine } from "./source-lines.js";
+import { escapeHtml } from "./util.js";
+
+/**
+ * Citation styles
+ */
+export const citationStyles = ["apa", "chicago", "ieee"] as const;
+export type CitationStyle = (typeof citationStyles)[number];
+
+/**
+ * Bibliography configuration.
+ *
+ * @example
+ * ```yaml
+ * bibliography: references.bib   # APA style
+ *
+ * bibliography:
+ *   file: references.json        # BibTeX (.bib) or CSL-JSON (.json)
+ *   style: ieee                  # apa (default), chicago, ieee
+ * ```
+ */
+export interface BibliographyConfig {
+	/** BibTeX or CSL-JSON file (relative to the markdown file) */
+	file?: string;
+	/** Citation style. Default: "apa" */
+	style?: CitationStyle;
+}
+
+/**
+ * A person's name, or the literal name of an organization
+ */
+interface Name {
+	family?: string;
+	given?: string;
+	literal?: string;
+}
+
+/**
+ * A bibliography entry, read from BibTeX or CSL-JSON
+ */
+export interface Reference {
+	id: string;
+	/** CSL item type: article-journal, book, chapter, paper-conference, ... */
+	type: string;
+	authors: Name[];
+	editors: Name[];
+	title?: string;
+	/** Journal, book or proceedings title */
+	container?: string;
+	publisher?: string;
+	place?: string;
+	volume?: string;
+	issue?: string;
+	pages?: string;
+	edition?: string;
+	year?: string;
+	doi?: string;
+	url?: string;
+}
+
+/**
+ * Result of processing citations
+ */
+export interface CitationsResult {
+	content: string;
+	warnings: string[];
+}
+
+/**
+ * Citation key: starts and ends with a word character, may contain
+ * internal punctuation (smith:2024, doe.j-2023)
+ */
+const KEY: string = String.raw`\w(?:[\w:.#$%&+?<>~/-]*\w)?`;
+
+/**
+ * Regex to match a citation, in one pass so IEEE numbers follow the text:
+ * - bracketed: [@key], [see @a, p. 3; @b] (not links or reference links)
+ * - narrative: @key (not in e-mail addresses or @see(...))
+ */
+const CITATION_REGEX: RegExp = new RegExp(
+	String.raw`\[([^[\]]*@[^[\]]*)\](?![([:])|(?<![\w@.\-\]])@(${KEY})(?![\w(])`,
+	"g",
+);
+
+/**
+ * Regex to match one item of a bracketed citation: prefix -@key suffix
+ */
+const ITEM_REGEX: RegExp = new RegExp(
+	String.raw`^((?:.*\s)?)(-?)@(${KEY})(.*)$`,
+	"s",
+);
+
+/**
+ * Regex to match the <!-- bibliography --> marker on its own line
+ */
+const BIBLIOGRAPHY_REGEX = /^<!--\s*bibliography\s*-->[ \t]*$/gm;
+
+/**
+ * Regex to match an opening or closing code fence
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * BibTeX entry types → CSL item types
+ */
+const BIBTEX_TYPES: Record<string, string> = {
+	article: "article-journal",
+	book: "book",
+	inbook: "chapter",
+	incollection: "chapter",
+	inproceedings: "paper-conference",
+	conference: "paper-conference",
+	techreport: "report",
+	report: "report",
+	phdthesis: "thesis",
+	mastersthesis: "thesis",
+	thesis: "thesis",
+	online: "webpage",
+};
+
+/**
+ * Predefined BibTeX month macros
+ */
+const MONTHS: string[] = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+/**
+ * TeX accent commands → Unicode combining characters
+ */
+const ACCENTS: Record<string, string> = {
+	'"': "\u0308",
+	"'": "\u0301",
+	"`": "\u0300",
+	"^": "\u0302",
+	"~": "\u0303",
+	"=": "\u0304",
+	".": "\u0307",
+	c: "\u0327",
+	v: "\u030c",
+	u: "\u0306",
+	H: "\u030b",
+};
+
+/**
+ * TeX letter commands → Unicode characters
+ */
+const LETTERS: Record<string, string> = {
+	ss: "ß",
+	o: "ø",
+	O: "Ø",
+	aa: "å",
+	AA: "Å",
+	ae: "æ",
+	AE: "Æ",
+	oe: "œ",
+	OE: "Œ",
+	l: "ł",
+	L: "Ł",
+	i: "ı",
+};
+
+/**
+ * Escape text for use in HTML. Markdown emphasis characters are escaped
+ * too, as citations end up in markdown text.
+ */
+function escapeMarkdownHtml(text: string): string {
+	return escapeHtml(text).replace(/\*/g, "&#42;").replace(/_/g, "&#95;");
+}
+
+/**
+ * Convert TeX markup in a BibTeX value to plain text
+ */
+function cleanTex(value: string): string {
+	return value
+		.replace(
+			/\\([`'^"~=.])\s*\{?\\?([a-zA-Z])\}?/g,
+			(_, accent: string, letter: string) => letter + ACCENTS[accent],
+		)
+		.replace(
+			/\\([cvuH])(?:\s*\{\\?([a-zA-Z])\}|\s+([a-zA-Z]))/g,
+			(_, accent: string, braced?: string, spaced?: string) =>
+				(braced ?? spaced ?? "") + ACCENTS[accent],
+		)
+		.replace(
+			/\\(ss|aa|AA|ae|AE|oe|OE|o|O|l|L|i)(?![a-zA-Z])\s*/g,
+			(_, letter: string) => LETTERS[letter] ?? letter,
+		)
+		.replace(/\\[a-zA-Z]+\s*\{/g, "{")
+		.replace(/\\([&%$#_])/g, "$1")
+		.replace(/[{}]/g, "")
+		.replace(/---/g, "—")
+		.replace(/--/g, "–")
+		.replace(/\s+/g, " ")
+		.replace(/~/g, "\u00a0")
+		.trim()
+		.normalize("NFC");
+}
+
+/**
+ * Use an en dash in page ranges: 45-67 → 45–67
+ */
+function pageRange(pages: string): string {
+	return pages.replace(/\s*[-–]+\s*/g, "–");
+}
+
+/**
+ * Find the end of a brace group, or of an @entry(...) in parentheses.
+ * Returns -1 when it is not closed.
+ */
+function findClose(source: string, open: number): number {
+	const closeChar = source[open] === "(" ? ")" : "}";
+	let depth = 0;
+	for (let index = open + 1; index < source.length; index++) {
+		const char = source[index];
+		if (char === "{") depth++;
+		else if (char === "}" && depth > 0) depth--;
+		else if (char === closeChar && depth === 0) return index;
+	}
+	return -1;
+}
+
+/**
+ * Split text at a separator that is not inside braces
+ */
+function splitTopLevel(text: string, separator: RegExp): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let start = 0;
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (char === "{") depth++;
+		else if (char === "}") depth--;
+		else if (depth === 0) {
+			const match = separator.exec(text.slice(index));
+			if (match?.index === 0) {
+				parts.push(text.slice(start, index));
+				index += match[0].length - 1;
+				start = index + 1;
+			}
+		}
+	}
+	parts.push(text.slice(start));
+	return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse the fields of a BibTeX entry: name = {value} # "value" # macro
+ */
+function parseBibtexFields(
+	body: string,
+	macros: Map<string, string>,
+): Map<string, string> {
+	const fields = new Map<string, string>();
+	let index = 0;
+
+	while (index < body.length) {
+		const field = /^[\s,]*([\w:.+-]+)\s*=\s*/.exec(body.slice(index));
+		if (!field?.[1]) break;
+		index += field[0].length;
+
+		let value = "";
+		while (index < body.length) {
+			const char = body[index];
+			if (char === "{") {
+				const close = findClose(body, index);
+				if (close === -1) throw new Error(`Unclosed brace in "${field[1]}"`);
+				value += body.slice(index + 1, close);
+				index = close + 1;
+			} else if (char === '"') {
+				let close = index + 1;
+				let depth = 0;
+				while (close < body.length && (body[close] !== '"' || depth > 0)) {
+					if (body[close] === "{") depth++;
+					else if (body[close] === "}") depth--;
+					close++;
+				}
+				value += body.slice(index + 1, close);
+				index = close + 1;
+			} else {
+				const word = /^[^\s,#]+/.exec(body.slice(index))?.[0] ?? "";
+				value += macros.get(word.toLowerCase()) ?? word;
+				index += word.length;
+			}
+
+			// Values can be concatenated with #
+			const next = /^\s*#\s*/.exec(body.slice(index));
+			if (!next) break;
+			index += next[0].length;
+		}
+
+		fields.set(field[1].toLowerCase(), value);
+	}
+
+	return fields;
+}
+
+/**
+ * Parse a BibTeX name: "Last, First", "First von Last" or {Organization}
+ */
+function parseBibtexName(raw: string): Name {
+	if (/^\{[^{}]*\}$/.test(raw)) {
+		return { literal: cleanTex(raw) };
+	}
+
+	const parts = splitTopLevel(raw, /^,/).map(cleanTex);
+	if (parts.length > 1) {
+		// Last, First or Last, Jr, First
+		return { family: parts[0], given: parts.at(-1) };
+	}
+
+	const words = splitTopLevel(raw, /^\s+/).map(cleanTex);
+	if (words.length === 1) return { family: words[0] };
+
+	// The family name starts at the first lowercase particle (von, van der)
+	// before the last word, or is the last word
+	const particle = words.findIndex(
+		(word, index) =>
+			index > 0 && index < words.length - 1 && /^\p{Ll}/u.test(word),
+	);
+	const familyStart = particle === -1 ? words.length - 1 : particle;
+	return {
+		family: words.slice(familyStart).join(" "),
+		given: words.slice(0, familyStart).join(" "),
+	};
+}
+
+/**
+ * Parse a BibTeX file
+ */
+function parseBibtex(source: string): Reference[] {
+	const references: Reference[] = [];
+	const macros = new Map(
+		MONTHS.map((month, number) => [month, String(number + 1)]),
+	);
+	let index = source.indexOf("@");
+
+	while (index !== -1) {
+		const header = /^@(\w+)\s*([{(])/.exec(source.slice(index));
+		if (!header?.[1]) {
+			index = source.indexOf("@", index + 1);
+			continue;
+		}
+
+		const open = index + header[0].length - 1;
+		const close = findClose(source, open);
+		if (close === -1) {
+			const line = source.slice(0, index).split("\n").length;
+			throw new Error(`Unclosed entry on line ${line}`);
+		}
+
+		const type = header[1].toLowerCase();
+		const body = source.slice(open + 1, close);
+		index = source.indexOf("@", close + 1);
+
+		if (type === "comment" || type === "preamble") continue;
+		if (type === "string") {
+			for (const [name, value] of parseBibtexFields(body, macros)) {
+				macros.set(name, value);
+			}
+			continue;
+		}
+
+		const comma = body.indexOf(",");
+		const id = (comma === -1 ? body : body.slice(0, comma)).trim();
+		const fields = parseBibtexFields(
+			comma === -1 ? "" : body.slice(comma + 1),
+			macros,
+		);
+		const field = (name: string): string | undefined => {
+			const value = fields.get(name);
+			return value === undefined ? undefined : cleanTex(value);
+		};
+		const names = (name: string): Name[] => {
+			const value = fields.get(name);
+			return value
+				? splitTopLevel(value, /^\s+and\s+/i).map(parseBibtexName)
+				: [];
+		};
+		const url = field("url");
+
+		references.push({
+			id,
+			type: BIBTEX_TYPES[type] ?? (url ? "webpage" : "document"),
+			authors: names("author"),
+			editors: names("editor"),
+			title: field("title"),
+			container:
+				field("journal") ?? field("journaltitle") ?? field("booktitle"),
+			publisher:
+				field("publisher") ??
+				field("institution") ??
+				field("school") ??
+				field("organization"),
+			place: field("address") ?? field("location"),
+			volume: field("volume"),
+			issue: field("number") ?? field("issue"),
+			pages: field("pages"),
+			edition: field("edition"),
+			year: field("year") ?? field("date")?.slice(0, 4),
+			doi: field("doi"),
+			url,
+		});
+	}
+
+	return references;
+}
+
+/**
+ * Parse a CSL-JSON file
+ */
+function parseCslJson(source: string): Reference[] {
+	const items: unknown = JSON.parse(source);
+	if (!Array.isArray(items)) {
+		throw new Error("CSL-JSON must be an array of items");
+	}
+
+	const text = (value: unknown): string | undefined =>
+		typeof value === "string" || typeof value === "number"
+			? String(value)
+			: undefined;
+	const names = (value: unknown): Name[] =>
+		Array.isArray(value)
+			? value.map((name: Record<string, unknown>) => ({
+					family: text(name.family),
+					given: text(name.given),
+					literal: text(name.literal),
+				}))
+			: [];
+
+	return items.map((item: Record<string, unknown>) => {
+		const issued = item.issued as
+			| { "date-parts"?: unknown[][]; literal?: string; raw?: string }
+			| undefined;
+		const year =
+			text(issued?.["date-parts"]?.[0]?.[0]) ??
+			(issued?.literal ?? issued?.raw)?.match(/\d{4}/)?.[0];
+
+		return {
+			id: text(item.id) ?? "",
+			type: text(item.type) ?? "document",
+			authors: names(item.author),
+			editors: names(item.editor),
+			title: text(item.title),
+			container: text(item["container-title"]),
+			publisher: text(item.publisher),
+			place: text(item["publisher-place"]),
+			volume: text(item.volume),
+			issue: text(item.issue),
+			pages: text(item.page),
+			edition: text(item.edition),
+			year,
+			doi: text(item.DOI),
+			url: text(item.URL),
+		};
+	});
+}
+
+/**
+ * Read a bibliography file: CSL-JSON for .json files, BibTeX otherwise.
+ * Returns the references by key.
+ */
+export async function loadBibliography(
+	path: string,
+): Promise<Map<string, Reference>> {
+	const source = await fs.readFile(path, "utf-8");
+	const references =
+		extname(path).toLowerCase() === ".json"
+			? parseCslJson(source)
+			: parseBibtex(source);
+	return new Map(references.map((reference) => [reference.id, reference]));
+}
+
+/**
+ * Initials of given names: "John Ronald" → "J. R."
+ */
+function initials(given: string): string {
+	return given
+		.split(/\s+/)
+		.map((name) =>
+			name
+				.split("-")
+				.map((part) => (part ? `${part[0]}.` : ""))
+				.join("-"),
+		)
+		.join(" ");
+}
+
+/**
+ * Name as family name only (organizations keep their full name)
+ */
+function familyName(name: Name): string {
+	return name.literal ?? name.family ?? name.given ?? "";
+}
+
+/**
+ * Join names with commas and a final conjunction: "A, B, and C".
+ * The comma before the conjunction is used for three or more names,
+ * unless `serialComma` says otherwise.
+ */
+function joinNames(
+	names: string[],
+	and: string,
+	serialComma: boolean = names.length > 2,
+): string {
+	if (names.length <= 1) return names.join("");
+	const last = names.at(-1);
+	return `${names.slice(0, -1).join(", ")}${serialComma ? "," : ""} ${and} ${last}`;
+}
+
+/**
+ * Authors (or editors) of a reference as shown in citations.
+ * APA uses "&" in parenthetical citations and "and" in running text.
+ */
+function citationNames(
+	reference: Reference,
+	style: CitationStyle,
+	narrative: boolean,
+): string {
+	const names = reference.authors.length
+		? reference.authors
+		: reference.editors;
+	if (names.length === 0) return reference.title ?? reference.id;
+
+	const families = names.map(familyName);
+	const maxNames = style === "chicago" ? 3 : 2;
+	if (families.length > maxNames) return `${families[0]} et al.`;
+	return joinNames(families, style === "apa" && !narrative ? "&" : "and");
+}
+
+/**
+ * Add a period unless the text already ends with punctuation
+ */
+function sentence(text: string): string {
+	return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * DOI or URL of a reference, as a link
+ */
+function link(reference: Reference): string | undefined {
+	const url = reference.doi
+		? `https://doi.org/${reference.doi.replace(/^https?:\/\/doi\.org\//, "")}`
+		: reference.url;
+	return url
+		? `<a href="${escapeMarkdownHtml(url)}">${escapeMarkdownHtml(url)}</a>`
+		: undefined;
+}
+
+/**
+ * Format a bibliography entry in APA style (7th edition)
+ */
+function formatApa(reference: Reference): string {
+	const e = escapeHtml;
+	const author = (name: Name): string =>
+		name.literal ??
+		[name.family, name.given && initials(name.given)]
+			.filter(Boolean)
+			.join(", ");
+	const names = reference.authors.length
+		? reference.authors
+		: reference.editors;
+	const authors = joinNames(names.map(author), "&", true);
+	const editorNote =
+		reference.authors.length === 0 && names.length > 0
+			? ` (${names.length === 1 ? "Ed." : "Eds."})`
+			: "";
+	const year = `(${reference.year ?? "n.d."})`;
+	const parts: string[] = [];
+
+	const title = reference.title ? e(reference.title) : "";
+	const isPart = ["article-journal", "chapter", "paper-conference"].includes(
+		reference.type,
+	);
+
+	if (authors) parts.push(sentence(`${e(authors)}${editorNote}`), `${year}.`);
+	if (title) {
+		const edition = reference.edition ? ` (${e(reference.edition)} ed.)` : "";
+		parts.push(sentence(isPart ? title : `<em>${title}</em>${edition}`));
+	}
+	if (!authors) parts.push(`${year}.`);
+
+	if (reference.type === "article-journal" && reference.container) {
+		let source = `<em>${e(reference.container)}</em>`;
+		if (reference.volume) source += `, <em>${e(reference.volume)}</em>`;
+		if (reference.issue) source += `(${e(reference.issue)})`;
+		if (reference.pages) source += `, ${e(pageRange(reference.pages))}`;
+		parts.push(`${source}.`);
+	} else if (isPart && reference.container) {
+		const editors = reference.editors.map(
+			(name) =>
+				name.literal ??
+				[name.given && initials(name.given), name.family]
+					.filter(Boolean)
+					.join(" "),
+		);
+		const edited = editors.length
+			? `${e(joinNames(editors, "&"))} (${editors.length === 1 ? "Ed." : "Eds."}), `
+			: "";
+		const pages = reference.pages
+			? ` (pp. ${e(pageRange(reference.pages))})`
+			: "";
+		parts.push(`In ${edited}<em>${e(reference.container)}</em>${pages}.`);
+	}
+
+	if (reference.publisher && reference.type !== "article-journal") {
+		parts.push(sentence(e(reference.publisher)));
+	}
+
+	const url = link(reference);
+	if (url) parts.push(url);
+	return parts.join(" ");
+}
+
+/**
+ * Format a bibliography entry in Chicago author-date style (17th edition)
+ */
+function formatChicago(reference: Reference): string {
+	const e = escapeHtml;
+	const names = reference.authors.length
+		? reference.authors
+		: reference.editors;
+	// First author inverted, the others in normal order
+	const authors = joinNames(
+		names.map((name, index) => {
+			if (name.literal) return name.literal;
+			const parts = [name.family, name.given].filter(Boolean);
+			return index === 0 ? parts.join(", ") : parts.reverse().join(" ");
+		}),
+		"and",
+		true,
+	);
+	const editorNote =
+		reference.authors.length === 0 && names.length > 0
+			? `, ${names.length === 1 ? "ed" : "eds"}`
+			: "";
+	const parts: string[] = [];
+
+	const isPart = ["article-journal", "chapter", "paper-conference"].includes(
+		reference.type,
+	);
+	const title = reference.title
+		? isPart
+			? `“${sentence(e(reference.title))}”`
+			: sentence(`<em>${e(reference.title)}</em>`)
+		: "";
+
+	// Works without author start with the title
+	const year = sentence(reference.year ?? "n.d.");
+	if (authors) {
+		parts.push(sentence(`${e(authors)}${editorNote}`), year);
+		if (title) parts.push(title);
+	} else {
+		if (title) parts.push(title);
+		parts.push(year);
+	}
+
+	if (reference.type === "article-journal" && reference.container) {
+		let source = `<em>${e(reference.container)}</em>`;
+		if (reference.volume) source += ` ${e(reference.volume)}`;
+		if (reference.issue) source += ` (${e(reference.issue)})`;
+		if (reference.pages) source += `: ${e(pageRange(reference.pages))}`;
+		parts.push(`${source}.`);
+	} else {
+		if (isPart && reference.container) {
+			const editors = reference.editors.map((name) =>
+				[name.given, name.family].filter(Boolean).join(" "),
+			);
+			let source = `In <em>${e(reference.container)}</em>`;
+			if (editors.length)
+				source += `, edited by ${e(joinNames(editors, "and"))}`;
+			if (reference.pages) source += `, ${e(pageRange(reference.pages))}`;
+			parts.push(`${source}.`);
+		}
+		if (reference.edition) parts.push(`${e(reference.edition)} ed.`);
+		const publisher = [reference.place, reference.publisher]
+			.filter(Boolean)
+			.join(": ");
+		if (publisher) parts.push(sentence(e(publisher)));
+	}
+
+	const url = link(reference);
+	if (url) parts.push(sentence(url));
+	return parts.join(" ");
+}
+
+/**
+ * Format a bibliography entry in IEEE style
+ */
+function formatIeee(reference: Reference): string {
+	const e = escapeHtml;
+	const names = reference.authors.length
+		? reference.authors
+		: reference.editors;
+	const formatted = names.map(
+		(name) =>
+			name.literal ??
+			[name.given && initials(name.given), name.family]
+				.filter(Boolean)
+				.join(" "),
+	);
+	const authors =
+		formatted.length > 6
+			? `${formatted[0]} et al.`
+			: joinNames(formatted, "and");
+	const editorNote =
+		reference.authors.length === 0 && names.length > 0
+			? `, ${names.length === 1 ? "Ed." : "Eds."}`
+			: "";
+	const isPart = ["article-journal", "chapter", "paper-conference"].includes(
+		reference.type,
+	);
+	const parts: string[] = [];
+
+	if (authors) parts.push(`${e(authors)}${editorNote}`);
+	if (reference.title) {
+		parts.push(
+			isPart ? `“${e(reference.title)},”` : `<em>${e(reference.title)}</em>`,
+		);
+	}
+
+	const details: string[] = [];
+	if (reference.type === "article-journal") {
+		if (reference.container) details.push(`<em>${e(reference.container)}</em>`);
+		if (reference.volume) details.push(`vol. ${e(reference.volume)}`);
+		if (reference.issue) details.push(`no. ${e(reference.issue)}`);
+		if (reference.pages) details.push(`pp. ${e(pageRange(reference.pages))}`);
+		if (reference.year) details.push(e(reference.year));
+	} else {
+		if (isPart && reference.container) {
+			details.push(`in <em>${e(reference.container)}</em>`);
+		}
+		const publisher = [reference.place, reference.publisher]
+			.filter(Boolean)
+			.join(": ");
+		if (publisher) details.push(e(publisher));
+		if (reference.year) details.push(e(reference.year));
+		if (isPart && reference.pages) {
+			details.push(`pp. ${e(pageRange(reference.pages))}`);
+		}
+	}
+
+	// The title of parts already ends with a comma inside the quotes
+	let entry = parts.join(", ");
+	if (reference.edition && !isPart) {
+		entry += `, ${e(reference.edition)} ed.`;
+	}
+	if (details.length) {
+		const separator = isPart || reference.edition ? " " : ", ";
+		entry += `${separator}${details.join(", ")}`;
+	}
+	entry = sentence(entry);
+
+	if (reference.doi) {
+		entry += ` doi: ${e(reference.doi.replace(/^https?:\/\/doi\.org\//, ""))}.`;
+	} else if (reference.url) {
+		entry += ` [Online]. Available: ${link(reference)}`;
+	}
+	return entry;
+}
+
+/**
+ * Sort key for author-date styles: author names, year, title
+ */
+function sortKey(reference: Reference): string {
+	const names = reference.authors.length
+		? reference.authors
+		: reference.editors;
+	// Works without author are sorted by title
+	return [
+		names.length
+			? names.map((name) => `${familyName(name)} ${name.given ?? ""}`).join(" ")
+			: (reference.title ?? ""),
+		reference.year ?? "",
+		reference.title ?? "",
+	]
+		.join("\u0000")
+		.toLowerCase();
+}
+
+/**
+ * Replace citations in the text of one line, leaving code spans alone
+ */
+function replaceOutsideCode(
+	line: string,
+	replacer: (text: string) => string,
+): string {
+	return line
+		.split(/(`+[^`]*`+)/)
+		.map((part, index) => (index % 2 === 0 ? replacer(part) : part))
+		.join("");
+}
+
+/**
+ * Resolve citations and insert the bibliography at <!-- bibliography -->.
+ * Bracketed citations with unknown keys are shown in bold with a warning.
+ * Narrative citations (@key) are only resolved for known keys, so e-mail
+ * style handles and other @words are left alone.
+ * The bibliography goes on the line of the marker, so the lines of the
+ * content stay those of the source (see formatSourceLine).
+ */
+export function processCitations(
+	content: string,
+	references: Map<string, Reference>,
+	style: CitationStyle = "apa",
+	lines?: SourceLine[],
+): CitationsResult {
+	const warnings: string[] = [];
+	const cited: Reference[] = [];
+	const numbers = new Map<string, number>();
+
+	const cite = (key: string): Reference | undefined => {
+		const reference = references.get(key);
+		if (reference && !numbers.has(key)) {
+			cited.push(reference);
+			numbers.set(key, cited.length);
+		}
+		return reference;
+	};
+
+	const anchor = (reference: Reference, text: string): string =>
+		`<a href="#ref-${escapeMarkdownHtml(reference.id)}" class="citation">${text}</a>`;
+
+	const year = (reference: Reference): string =>
+		escapeMarkdownHtml(reference.year ?? "n.d.");
+
+	// Chicago leaves out "p." for page numbers
+	const locator = (suffix: string): string =>
+		escapeMarkdownHtml(
+			style === "chicago" ? suffix.replace(/^pp?\.\s*/, "") : suffix,
+		);
+
+	const citeBracket = (match: string, inner: string, line: string): string => {
+		const items = inner.split(";").map((item) => ITEM_REGEX.exec(item.trim()));
+		if (items.some((item) => !item)) return match;
+
+		const rendered = items.map((item) => {
+			const [, prefix = "", suppress, key = "", rest = ""] = item ?? [];
+			const suffix = rest.replace(/^\s*,?\s*/, "").trim();
+			const reference = cite(key);
+			const before = prefix ? `${escapeMarkdownHtml(prefix.trim())} ` : "";
+
+			if (!reference) {
+				warnings.push(`Citation: unknown key "${key}" on ${line}`);
+				return `${before}<strong>${escapeMarkdownHtml(key)}?</strong>`;
+			}
+
+			if (style === "ieee") {
+				const number = numbers.get(key);
+				const page = suffix ? `, ${locator(suffix)}` : "";
+				return `${before}${anchor(reference, `[${number}${page}]`)}`;
+			}
+
+			const separator = style === "apa" ? ", " : " ";
+			const text = [
+				suppress
+					? ""
+					: `${escapeMarkdownHtml(citationNames(reference, style, false))}${separator}`,
+				year(reference),
+				suffix ? `, ${locator(suffix)}` : "",
+			].join("");
+			return `${before}${anchor(reference, text)}`;
+		});
+
+		return style === "ieee" ? rendered.join(", ") : `(${rendered.join("; ")})`;
+	};
+
+	const citeNarrative = (match: string, key: string): string => {
+		const reference = references.get(key);
+		if (!reference) return match;
+		cite(key);
+		const names = escapeMarkdownHtml(citationNames(reference, style, true));
+		return style === "ieee"
+			? `${names} ${anchor(reference, `[${numbers.get(key)}]`)}`
+			: `${names} (${anchor(reference, year(reference))})`;
+	};
+
+	// Process line by line, skipping fenced code blocks
+	let openFence: string | undefined;
+	const processed = content.split("\n").map((text, index) => {
+		const fence = FENCE_REGEX.exec(text)?.[1];
+		if (fence) {
+			if (!openFence) openFence = fence;
+			else if (fence[0] === openFence[0] && fence.length >= openFence.length) {
+				openFence = undefined;
+			}
+			return text;
+		}
+		if (openFence) return text;
+
+		return replaceOutsideCode(text, (part) =>
+			part.replace(CITATION_REGEX, (match, inner?: string, key?: string) =>
+				inner === undefined
+					? citeNarrative(match, key ?? "")
+					: citeBracket(match, inner, formatSourceLine(lines, index)),
+			),
+		);
+	});
+
+	// Author-date styles are sorted by author, IEEE is in citation order
+	const entries =
+		style === "ieee"
+			? cited
+			: [...cited].sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+	const format = { apa: formatApa, chicago: formatChicago, ieee: formatIeee }[
+		style
+	];
+	const bibliography = [
+		`<div class="bibliography bibliography-${style}">`,
+		...entries.map((reference) => {
+			const id = `ref-${escapeMarkdownHtml(reference.id)}`;
+			const body =
+				style === "ieee"
+					? `<span class="csl-left-margin">[${numbers.get(reference.id)}]</span><span class="csl-right-inline">${format(reference)}</span>`
+					: format(reference);
+			return `<div class="csl-entry" id="${id}">${body}</div>`;
+		}),
+		"</div>",
+	].join("");
+
+	return {
+		content: processed
+			.join("\n")
+			.replace(BIBLIOGRAPHY_REGEX, () => bibliography),
+		warnings,
+	};
+}
+
+/**
+ * CSS for the bibliography: hanging indent, or numbers in the margin (IEEE)
+ */
+export const bibliographyCss = `
+.bibliography .csl-entry {
+  margin-bottom: 0.5em;
+  padding-left: 2em;
+  text-indent: -2em;
+  break-inside: avoid;
+}
+
+.bibliography-ieee .csl-entry {
+  display: flex;
+  padding-left: 0;
+  text-indent: 0;
+}
+
+.bibliography-ieee .csl-left-margin {
+  flex: 0 0 3em;
+}
+
+.bibliography-ieee .csl-right-inline {
+  flex: 1;
+}
+`;
@@ -0,0 +1,291 @@
+import { promises as fs } from "node:fs";
+import { basename, dirname, relative, resolve } from "node:path";
+import type { Config } from "./config.js";
+import { processIncludes } from "./includes.js";
+import { addMermaidLineNumbers } from "./mermaid.js";
+import { getSourceLines, type SourceLine } from "./source-lines.js";
+import { parseFrontMatter } from "./util.js";
+
+/**
+ * How chapters are separated in book mode
+ */
+export const bookPageBreaks = [
+	"between_files", // each chapter starts on a new page (default)
+	"chapter_start_odd", // each chapter starts on a right-hand (odd) page
+	"none",
+] as const;
+export type BookPageBreak = (typeof bookPageBreaks)[number];
+
+/**
+ * Book mode configuration: combine many markdown files into one PDF.
+ *
+ * @example
+ * ```yaml
+ * book:
+ *   files:
+ *     - preface.md
+ *     - chapters/*.md          # globs are sorted alphabetically
+ *     - appendix.md
+ *   page_break: chapter_start_odd
+ * ```
+ */
+export interface BookConfig {
+	/** Chapter files or globs, in order, relative to the config file */
+	files?: string[];
+	/** Page breaks between chapters. Default: "between_files" */
+	page_break?: BookPageBreak;
+}
+
+/**
+ * A book assembled from its chapters
+ */
+export interface Book {
+	/** Absolute paths of the chapter files, in order */
+	files: string[];
+	/** Combined markdown of all chapters (includes already expanded) */
+	content: string;
+	/** Chapter and line of each line of the content */
+	lines: SourceLine[];
+	/** Chapter front-matter that can't apply to just the chapter */
+	warnings: string[];
+}
+
+/**
+ * Options for assembling a book
+ */
+export interface BookOptions {
+	/** Directory that relative chapter paths and globs are resolved from */
+	baseDir: string;
+	/** Templates configuration for @include */
+	templates?: Config["templates"];
+	/** Called for every file read: chapters and includes */
+	onRead?: (path: string, type: "markdown" | "include", from?: string) => void;
+}
+
+/**
+ * Check whether a chapter entry is a glob pattern
+ */
+function isGlob(pattern: string): boolean {
+	return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Expand chapter paths and globs into an ordered list of absolute paths.
+ * Glob matches are sorted alphabetically, files listed twice are kept once.
+ */
+export async function resolveBookFiles(
+	patterns: string[],
+	baseDir: string,
+): Promise<string[]> {
+	const files: string[] = [];
+
+	for (const pattern of patterns) {
+		if (!isGlob(pattern)) {
+			files.push(resolve(baseDir, pattern));
+			continue;
+		}
+
+		const matches: string[] = [];
+		for await (const match of fs.glob(pattern, { cwd: baseDir })) {
+			matches.push(resolve(baseDir, match));
+		}
+		if (matches.length === 0) {
+			throw new Error(`No chapter files match "${pattern}"`);
+		}
+		files.push(...matches.sort((a, b) => a.localeCompare(b)));
+	}
+
+	return [...new Set(files)];
+}
+
+/**
+ * Line of page number zone markers, or a blank line, at the start of a
+ * chapter
+ */
+const LEADING_ZONE_MARKERS = /^\s*(?:<!--\s*page-numbers:[^>]*-->\s*)*$/;
+
+/**
+ * Regex to match an opening or closing code fence
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Regex to match a path in a line of markdown: the destination of a link
+ * or image, of a link reference definition (not a footnote), or a src or
+ * href attribute
+ */
+const PATH_REGEX =
+	/(\]\(\s*<?|^ {0,3}\[(?!\^)[^\]]+\]:\s*<?|\b(?:src|href)=["'])([^\s"'<>)]+)/g;
+
+/**
+ * Check whether a path is relative: not a URL, an absolute path or an
+ * anchor
+ */
+function isRelativePath(path: string): boolean {
+	return !/^(?:[a-z][\w+.-]*:|[/\\#])/i.test(path);
+}
+
+/**
+ * Make the relative image and link paths of a chapter relative to the base
+ * directory, which relative paths of the book are resolved from. Code
+ * blocks and code spans are left alone.
+ */
+function rebasePaths(
+	content: string,
+	chapterDir: string,
+	baseDir: string,
+): string {
+	if (resolve(chapterDir) === resolve(baseDir)) return content;
+
+	let openFence: string | undefined;
+	return content
+		.split("\n")
+		.map((line) => {
+			const fence = FENCE_REGEX.exec(line)?.[1];
+			if (fence) {
+				if (!openFence) openFence = fence;
+				else if (
+					fence[0] === openFence[0] &&
+					fence.length >= openFence.length
+				) {
+					openFence = undefined;
+				}
+				return line;
+			}
+			if (openFence) return line;
+
+			return line
+				.split(/(`+[^`]*`+)/)
+				.map((part, index) =>
+					index % 2 === 0
+						? part.replace(PATH_REGEX, (match, before: string, path: string) =>
+								isRelativePath(path)
+									? `${before}${relative(baseDir, resolve(chapterDir, path)).replace(/\\/g, "/")}`
+									: match,
+							)
+						: part,
+				)
+				.join("");
+		})
+		.join("\n");
+}
+
+/**
+ * Read all chapters and combine them into a single markdown document.
+ * Each chapter starts with an empty <div class="book-chapter"> so page
+ * breaks can be applied between chapters. Chapters aren't wrapped, so
+ * page number zones can span chapters. Relative images and links of a
+ * chapter are relative to the chapter, like its includes.
+ */
+export async function assembleBook(
+	files: string[],
+	options: BookOptions,
+): Promise<Book> {
+	const { baseDir, onRead } = options;
+	const chapterFiles = await resolveBookFiles(files, baseDir);
+
+	if (chapterFiles.length === 0) {
+		throw new Error("Book mode needs at least one chapter file");
+	}
+
+	const output: string[] = [];
+	const lines: SourceLine[] = [];
+	const warnings: string[] = [];
+
+	for (const path of chapterFiles) {
+		let source: string;
+		try {
+			source = await fs.readFile(path, "utf-8");
+		} catch {
+			throw new Error(`Chapter file not found: ${path}`);
+		}
+		onRead?.(path, "markdown");
+
+		// Front-matter applies to the chapter only, so only its templates are
+		// used. The rest is for the whole book and goes in the config file
+		const {
+			content,
+			data,
+			line: firstLine,
+		} = parseFrontMatter(addMermaidLineNumbers(source, basename(path)));
+		const { templates, ...bookConfig } = data as Partial<Config>;
+		const ignored = Object.keys(bookConfig);
+		if (ignored.length > 0) {
+			warnings.push(
+				`Book: front-matter of ${basename(path)} can only set templates, ignored: ${ignored.join(", ")} (set them in the config file)`,
+			);
+		}
+
+		const included = await processIncludes(
+			rebasePaths(content, dirname(path), baseDir),
+			dirname(path),
+			{
+				templates: { ...options.templates, ...templates },
+				from: path,
+				onInclude: (includePath: string, from?: string): void =>
+					onRead?.(includePath, "include", from),
+				lines: getSourceLines(content, path, firstLine),
+			},
+		);
+
+		// Leave out blank lines at the start and end of the chapter
+		const text = included.content.split("\n");
+		const start = Math.max(
+			text.findIndex((line) => line.trim() !== ""),
+			0,
+		);
+		const end = text.findLastIndex((line) => line.trim() !== "") + 1;
+
+		// The chapter break goes after page number markers, so it is part of
+		// the zone the chapter starts. Blank lines keep the content parsed as
+		// markdown, and separate the chapters
+		let markers = start;
+		while (markers < end && LEADING_ZONE_MARKERS.test(text[markers] ?? "")) {
+			markers++;
+		}
+		const breakLine = included.lines[markers] ?? {
+			line: firstLine,
+			file: path,
+		};
+		const chapterBreak = [
+			...(markers > start && text[markers - 1]?.trim() ? [""] : []),
+			'<div class="book-chapter"></div>',
+			"",
+		];
+		if (output.length > 0) {
+			output.push("");
+			lines.push(breakLine);
+		}
+		output.push(
+			...text.slice(start, markers),
+			...chapterBreak,
+			...text.slice(markers, end),
+		);
+		lines.push(
+			...included.lines.slice(start, markers),
+			...chapterBreak.map(() => breakLine),
+			...included.lines.slice(markers, end),
+		);
+	}
+
+	return {
+		files: chapterFiles,
+		content: `${output.join("\n")}\n`,
+		lines,
+		warnings,
+	};
+}
+
+/**
+ * CSS for page breaks between chapters
+ */
+export function getBookCss(pageBreak: BookPageBreak = "between_files"): string {
+	if (pageBreak === "none") return "";
+	const breakBefore = pageBreak === "chapter_start_odd" ? "right" : "page";
+	return `
+/* Book mode: start every chapter on a new page */
+.book-chapter {
+  break-before: ${breakBefore};
+}
+`;
+}
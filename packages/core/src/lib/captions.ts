@@ -0,0 +1,407 @@
+/**
+ * Numbered figures and tables for mdforge.
+ *
+ * Syntax:
+ *   Figure: an image alone in its paragraph, with a caption line, a label
+ *   or an image title:
+ *
+ *     ![Architecture](arch.png) {#fig:arch}
+ *     Figure: Overview of the architecture
+ *
+ *   Table: a caption line directly before or after a table:
+ *
+ *     Table: Supported formats {#tbl:formats}
+ *
+ *   Reference: @see(fig:arch) → Figure 1, @see(tbl:formats) → Table 1
+ *   Lists: <!-- lof --> (list of figures), <!-- lot --> (list of tables)
+ */
+
+import type { MarkedExtension, Token, Tokens } from "marked";
+import { formatNumber, type HeadingNumbersConfig } from "./heading-numbers.js";
+import { pageRefHtml } from "./page-refs.js";
+import type { TOCOptions } from "./toc.js";
+
+/**
+ * Figure and table numbering modes
+ */
+export const captionNumberings = ["document", "chapter"] as const;
+export type CaptionNumbering = (typeof captionNumberings)[number];
+
+/**
+ * Caption configuration for figures and tables.
+ *
+ * @example
+ * ```yaml
+ * captions:
+ *   numbering: chapter   # document (default): Figure 1, 2, 3 ...
+ * ```
+ */
+export interface CaptionsConfig {
+	/**
+	 * "document" numbers through the whole document, "chapter" restarts
+	 * in every chapter and prefixes the chapter number (Figure 2.1).
+	 * Chapters are the top numbered level of heading_numbers, or h1
+	 * headings without heading_numbers. Default: "document"
+	 */
+	numbering?: CaptionNumbering;
+}
+
+/**
+ * Options from the rest of the config that captions follow
+ */
+export interface CaptionsOptions {
+	heading_numbers?: HeadingNumbersConfig;
+	/** Page numbers and leader for the lists, like the TOC */
+	toc_options?: TOCOptions;
+}
+
+/**
+ * Regex to match a figure: an image line with an optional {#fig:label},
+ * optionally followed by a "Figure:" caption line, at the end of a paragraph
+ */
+const FIGURE_REGEX =
+	/^ {0,3}(!\[[^\n]*\]\([^\n]*\))(?:[ \t]*\{#(fig:[\w.:-]+)\})?(?:[ \t]*\n {0,3}Figure:[ \t]*([^\n]*?)(?:[ \t]*\{#(fig:[\w.:-]+)\})?)?[ \t]*(?=\n[ \t]*(?:\n|$)|\n?$)\n*/;
+
+/**
+ * Regex to match a table caption line, followed by a blank line or a table
+ */
+const TABLE_CAPTION_REGEX =
+	/^ {0,3}(Table:[ \t]*([^\n]*?)(?:[ \t]*\{#(tbl:[\w.:-]+)\})?)[ \t]*(?:\n(?=[^\n]*\||[ \t]*(?:\n|$))\n*|$)/;
+
+/**
+ * Regex to match figure and table references: @see(fig:label)
+ */
+const CAPTION_REF_REGEX = /^@see\(((fig|tbl):[\w.:-]+)\)/;
+
+/**
+ * Regex to match a list of figures or tables marker
+ */
+const LIST_REGEX = /^ {0,3}<!--\s*(lof|lot)\s*-->[ \t]*(?:\n+|$)/;
+
+type CaptionKind = "figure" | "table";
+
+interface CaptionToken extends Tokens.Generic {
+	type: "figure" | "tableCaption" | "tableFigure";
+	/** Figure: the image (inline), table figure: the table (block) */
+	tokens: Token[];
+	caption?: Token[];
+	label?: string;
+	/** Id of the element, the label or an id from the number */
+	id?: string;
+	number?: string;
+}
+
+/**
+ * A numbered figure or table, for references and lists
+ */
+interface CaptionEntry {
+	id: string;
+	number: string;
+	caption?: Token[];
+}
+
+const KIND_NAMES: Record<CaptionKind, string> = {
+	figure: "Figure",
+	table: "Table",
+};
+
+/**
+ * Marked extension for numbered figures and tables with captions,
+ * references and lists. Numbers are assigned before rendering, so
+ * references and lists can point ahead.
+ */
+export function captions(
+	config: CaptionsConfig = {},
+	options: CaptionsOptions = {},
+): MarkedExtension {
+	const numbering = config.numbering ?? "document";
+	const headingConfig = options.heading_numbers;
+	const chapterDepth = headingConfig ? (headingConfig.start_depth ?? 2) : 1;
+	const chapterNumbered =
+		!headingConfig || (headingConfig.max_depth ?? 6) >= chapterDepth;
+	const skipFirstH1 = headingConfig
+		? (headingConfig.skip_first_h1 ?? true)
+		: false;
+	const pageNumbers = options.toc_options?.page_numbers ?? false;
+	const leader = options.toc_options?.leader ?? "dots";
+
+	const entries: Record<CaptionKind, CaptionEntry[]> = {
+		figure: [],
+		table: [],
+	};
+	const counts: Record<CaptionKind, number> = { figure: 0, table: 0 };
+	const labels = new Map<string, string>();
+	let chapter = 0;
+	let firstH1Seen = false;
+
+	const nextNumber = (kind: CaptionKind): string => {
+		const count = String(++counts[kind]);
+		if (numbering !== "chapter" || chapter === 0) return count;
+		const format = headingConfig?.format ?? "arabic";
+		const separator = headingConfig?.separator ?? ".";
+		return `${formatNumber(chapter, format)}${separator}${count}`;
+	};
+
+	const addEntry = (kind: CaptionKind, token: CaptionToken): void => {
+		const number = nextNumber(kind);
+		const id = token.label ?? `${kind}-${number}`;
+		Object.assign(token, { id, number });
+		entries[kind].push({ id, number, caption: token.caption });
+		if (token.label) labels.set(token.label, `${KIND_NAMES[kind]} ${number}`);
+	};
+
+	const trackHeading = (depth: number): void => {
+		const skipped = skipFirstH1 && depth === 1 && !firstH1Seen;
+		if (depth === 1) firstH1Seen = true;
+		if (depth !== chapterDepth || !chapterNumbered || skipped) return;
+		chapter++;
+		if (numbering === "chapter") {
+			counts.figure = 0;
+			counts.table = 0;
+		}
+	};
+
+	/**
+	 * Attach table captions to the table after or before them. Captions
+	 * without a table and figures without a caption stay paragraphs.
+	 */
+	const pairCaptions = (tokens: Token[]): void => {
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i] as CaptionToken;
+			if (token.type === "figure" && !isFigure(token)) {
+				Object.assign(token, { type: "paragraph", text: token.raw.trim() });
+			}
+			if (token.type !== "tableCaption") continue;
+
+			const tableIndex = [
+				findNeighbor(tokens, i, 1),
+				findNeighbor(tokens, i, -1),
+			].find((index) => tokens[index]?.type === "table");
+			if (tableIndex === undefined) {
+				Object.assign(token, { type: "paragraph", text: token.raw.trim() });
+				continue;
+			}
+
+			const table = tokens[tableIndex] as Token;
+			tokens[tableIndex] = {
+				type: "tableFigure",
+				raw: table.raw,
+				tokens: [table],
+				caption: token.caption,
+				label: token.label,
+			} as CaptionToken;
+			tokens.splice(i, 1);
+			i--;
+		}
+	};
+
+	/**
+	 * Number figures and tables in document order, following chapters
+	 */
+	const numberCaptions = (tokens: Token[]): void => {
+		pairCaptions(tokens);
+		for (const token of tokens) {
+			if (token.type === "heading") trackHeading(token.depth);
+			if (token.type === "figure") addEntry("figure", token as CaptionToken);
+			if (token.type === "tableFigure") {
+				addEntry("table", token as CaptionToken);
+			}
+
+			if (token.type === "list") {
+				for (const item of token.items) numberCaptions(item.tokens);
+			} else if (
+				"tokens" in token &&
+				token.tokens &&
+				token.type !== "tableFigure"
+			) {
+				numberCaptions(token.tokens);
+			}
+		}
+	};
+
+	return {
+		extensions: [
+			{
+				name: "figure",
+				level: "block",
+				tokenizer(src: string): CaptionToken | undefined {
+					const match = FIGURE_REGEX.exec(src);
+					if (!match) return;
+					const caption = match[3];
+					return {
+						type: "figure",
+						raw: match[0],
+						tokens: this.lexer.inlineTokens(match[1] ?? ""),
+						caption:
+							caption === undefined
+								? undefined
+								: this.lexer.inlineTokens(caption),
+						label: match[2] ?? match[4],
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const figure = token as CaptionToken;
+					const image = this.parser.parseInline(figure.tokens);
+					const caption = renderCaption(
+						"figure",
+						figure,
+						this.parser.parseInline(figure.caption ?? []),
+					);
+					return `<figure class="figure" id="${figure.id}">\n${image}\n${caption}</figure>\n`;
+				},
+				childTokens: ["tokens", "caption"],
+			},
+			{
+				name: "tableCaption",
+				level: "block",
+				tokenizer(src: string): CaptionToken | undefined {
+					const match = TABLE_CAPTION_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "tableCaption",
+						raw: match[0],
+						tokens: this.lexer.inlineTokens(match[1] ?? ""),
+						caption: this.lexer.inlineTokens(match[2] ?? ""),
+						label: match[3],
+					};
+				},
+				// Captions without a table are turned into paragraphs
+				renderer(): string {
+					return "";
+				},
+			},
+			{
+				name: "tableFigure",
+				level: "block",
+				renderer(token: Tokens.Generic): string {
+					const figure = token as CaptionToken;
+					const caption = renderCaption(
+						"table",
+						figure,
+						this.parser.parseInline(figure.caption ?? []),
+					);
+					return `<figure class="table-figure" id="${figure.id}">\n${caption}${this.parser.parse(figure.tokens)}</figure>\n`;
+				},
+				childTokens: ["tokens", "caption"],
+			},
+			{
+				name: "captionRef",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.search(/@see\((?:fig|tbl):/);
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = CAPTION_REF_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "captionRef",
+						raw: match[0],
+						label: match[1],
+						kind: match[2] === "fig" ? "figure" : "table",
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const label = token.label as string;
+					const text =
+						labels.get(label) ?? `${KIND_NAMES[token.kind as CaptionKind]} ??`;
+					return `<a href="#${label}" class="caption-ref">${text}</a>`;
+				},
+			},
+			{
+				name: "captionList",
+				level: "block",
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = LIST_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "captionList",
+						raw: match[0],
+						kind: match[1] === "lof" ? "figure" : "table",
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const kind = token.kind as CaptionKind;
+					const items = entries[kind].map((entry) => {
+						// Links in captions can't be nested in the entry link. A
+						// copy of the tokens, so the entry isn't taken for the
+						// caption, e.g. for the first use of an acronym
+						const caption = this.parser
+							.parseInline(structuredClone(entry.caption ?? []))
+							.replace(/<\/?a\b[^>]*>/g, "");
+						const text = `${KIND_NAMES[kind]} ${entry.number}${caption ? `: ${caption}` : ""}`;
+						const content = pageNumbers
+							? `<span class="toc-text">${text}</span><span class="toc-leader"></span>${pageRefHtml(entry.id)}`
+							: text;
+						return `<li><a href="#${entry.id}">${content}</a></li>`;
+					});
+					const classes = pageNumbers
+						? ` toc-page-numbers toc-leader-${leader}`
+						: "";
+					return `<div class="list-of-${kind}s${classes}">\n<ul>\n${items.join("\n")}\n</ul>\n</div>\n`;
+				},
+			},
+		],
+		hooks: {
+			processAllTokens(tokens: Token[]): Token[] {
+				numberCaptions(tokens);
+				return tokens;
+			},
+		},
+	};
+}
+
+/**
+ * Find the index of the next token before or after an index, skipping
+ * blank lines
+ */
+function findNeighbor(tokens: Token[], index: number, step: 1 | -1): number {
+	let neighbor = index + step;
+	while (tokens[neighbor]?.type === "space") neighbor += step;
+	return neighbor;
+}
+
+/**
+ * Check if a figure token is a figure: it has a caption or a label, or is
+ * a single image with a title (used as the caption)
+ */
+function isFigure(token: CaptionToken): boolean {
+	if (token.caption || token.label) return true;
+	const [image, ...rest] = token.tokens;
+	if (image?.type !== "image" || rest.length > 0 || !image.title) return false;
+	token.caption = [{ type: "text", raw: image.title, text: image.title }];
+	return true;
+}
+
+/**
+ * Render the figcaption of a figure or table: "Figure 1: caption"
+ */
+function renderCaption(
+	kind: CaptionKind,
+	token: CaptionToken,
+	caption: string,
+): string {
+	const name = `${KIND_NAMES[kind]} ${token.number}`;
+	const label = caption
+		? `<span class="caption-label">${name}:</span> ${caption}`
+		: `<span class="caption-label">${name}</span>`;
+	return `<figcaption>${label}</figcaption>\n`;
+}
+
+/**
+ * CSS for figures and tables with captions
+ */
+export const captionsCss = `
+figure.figure,
+figure.table-figure {
+  break-inside: avoid;
+}
+
+figure.figure {
+  text-align: center;
+}
+
+.caption-label {
+  font-weight: 600;
+}
+`;
@@ -3,28 +3,67 @@ import process from "node:process";
 import { fileURLToPath } from "node:url";
 import type { MarkedExtension } from "marked";
 import type { FrameAddScriptTagOptions, launch, PDFOptions } from "puppeteer";
+import type { BibliographyConfig } from "./bibliography.js";
+import type { BookConfig } from "./book.js";
+import type { CaptionsConfig } from "./captions.js";
+import type { CoverConfig } from "./cover.js";
 import type { FontConfig } from "./fonts.js";
+import type { FootnotePlacement, FootnotesConfig } from "./footnotes.js";
+import type { GlossaryConfig } from "./glossary.js";
 import type { HeadingNumbersConfig } from "./heading-numbers.js";
 import type { TemplatesConfig } from "./includes.js";
-import type { PdfMetadata } from "./pdf-metadata.js";
+import type { MathConfig } from "./math.js";
+import type { OutlineConfig } from "./outline.js";
+import type { PdfMetadata, PdfStandard } from "./pdf-metadata.js";
 import { type Theme, themes } from "./presets.js";
+import type { SecurityConfig } from "./security.js";
+import type { SidenoteMode } from "./sidenotes.js";
 import type { TOCOptions } from "./toc.js";
+import type { WatermarkConfig } from "./watermark.js";
 
 export { themes, type Theme };
+export type { BibliographyConfig } from "./bibliography.js";
+export type { BookConfig } from "./book.js";
+export type { CaptionsConfig } from "./captions.js";
+export type { CoverConfig } from "./cover.js";
+export type { FootnotesConfig } from "./footnotes.js";
+export type { GlossaryConfig } from "./glossary.js";
 export type { HeadingNumbersConfig } from "./heading-numbers.js";
+export type { MathConfig } from "./math.js";
+export type { OutlineBookmark, OutlineConfig } from "./outline.js";
+export type { PdfPermissions, SecurityConfig } from "./security.js";
+export type { WatermarkConfig } from "./watermark.js";
 
 const __dirname: string = fileURLToPath(new URL(".", import.meta.url));
 
-export interface HeaderFooterColumn {
+export interface HeaderFooterColumns {
 	left?: string;
 	center?: string;
 	right?: string;
+}
+
+export interface HeaderFooterColumn extends HeaderFooterColumns {
 	background?: string;
 	firstPage?: boolean; // show on first page (default: true, only works without background)
+	odd?: string | HeaderFooterColumns; // replaces the columns on odd (right-hand) pages
+	even?: string | HeaderFooterColumns; // replaces the columns on even (left-hand) pages
 }
 
 export type HeaderFooterValue = string | HeaderFooterColumn;
 
+/**
+ * Mirrored margins for duplex printing: the inside margin is at the
+ * binding, on the left of odd pages and on the right of even pages.
+ */
+export interface MirrorMarginsConfig {
+	/** Margin at the binding. Default: the left margin */
+	inside?: string;
+	/** Margin at the outer edge. Default: the right margin */
+	outside?: string;
+	/** Extra room at the binding, added to the inside margin. Default: none */
+	gutter?: string;
+}
+
 /**
  * Page number format options.
  */
@@ -166,25 +205,54 @@ export interface Config {
 	toc_options?: TOCOptions;
 
 	/**
-	 * Simplified header template. Supports placeholders: {title}, {date}, {page}, {pages}, {url}
+	 * Book mode: combine many markdown files into one document.
+	 * Used with the `--book` CLI flag or `{ book: [...] }` input.
+	 */
+	book?: BookConfig;
+
+	/**
+	 * Simplified header template. Supports placeholders: {title}, {date}, {page}, {pages}, {url}, {chapter},
+	 * {section}, {heading:N}
 	 * Can be a simple string (centered) or object with left/center/right columns.
 	 * Markdown is supported and will be converted to HTML.
 	 */
 	header?: HeaderFooterValue;
 
 	/**
-	 * Simplified footer template. Supports placeholders: {title}, {date}, {page}, {pages}, {url}
+	 * Simplified footer template. Supports placeholders: {title}, {date}, {page}, {pages}, {url}, {chapter},
+	 * {section}, {heading:N}
 	 * Can be a simple string (centered) or object with left/center/right columns.
 	 * Markdown is supported and will be converted to HTML.
 	 */
 	footer?: HeaderFooterValue;
 
+	/**
+	 * Mirrored inside/outside margins and a binding gutter for duplex
+	 * printing, on top of pdf_options.margin (top and bottom stay).
+	 */
+	mirror_margins?: MirrorMarginsConfig;
+
 	/**
 	 * PDF metadata (author, title, subject, keywords, etc.)
 	 * Title is auto-detected from first h1 if not specified.
 	 */
 	metadata?: PdfMetadata;
 
+	/**
+	 * Archival standard the PDF conforms to: "pdf-a-2b" or "pdf-a-3b".
+	 * Adds XMP metadata and an sRGB output intent, and removes JavaScript.
+	 * Can't be combined with security (encryption).
+	 * Note: Ignored when as_html is true.
+	 */
+	pdf_standard?: PdfStandard;
+
+	/**
+	 * Check the rendered document for accessibility problems (alt text,
+	 * heading order, link text, ...) and report them.
+	 * Default: true
+	 */
+	check_accessibility?: boolean;
+
 	/**
 	 * Font configuration. Can be:
 	 * - A preset name: "classic-elegant", "modern-professional", etc.
@@ -219,6 +287,61 @@ export interface Config {
 	 */
 	heading_numbers?: HeadingNumbersConfig;
 
+	/**
+	 * Math typesetting with KaTeX: $inline$, $$display$$ and ```math blocks.
+	 * Enabled by default, set to false to keep dollar signs as text.
+	 */
+	math?: MathConfig | boolean;
+
+	/**
+	 * Numbering of figures and tables with captions, referenced with
+	 * @see(fig:label) and @see(tbl:label) and listed at <!-- lof --> and
+	 * <!-- lot -->.
+	 */
+	captions?: CaptionsConfig;
+
+	/**
+	 * Terms and acronyms for {{gls:term}} references, listed at
+	 * <!-- glossary -->. A string is shorthand for `{ entries: "..." }`,
+	 * usually a YAML file: `glossary: "@glossary.yaml"`.
+	 */
+	glossary?: string | GlossaryConfig;
+
+	/**
+	 * Footnote placement: endnotes at the end of the document (default), or
+	 * `footnotes: page` for notes at the bottom of the page they are
+	 * referenced on (PDF only).
+	 */
+	footnotes?: FootnotePlacement | FootnotesConfig;
+
+	/**
+	 * Layout of ^[sidenotes] and !!! margin notes: "auto" puts them in the
+	 * margin with the tufte theme on wide pages, "margin" always, and
+	 * "footnotes" turns sidenotes into footnotes. Default: "auto".
+	 */
+	sidenotes?: SidenoteMode;
+
+	/**
+	 * Bibliography for [@key] citations: a BibTeX or CSL-JSON file.
+	 * A string is shorthand for `{ file: "..." }`.
+	 * The reference list is inserted at <!-- bibliography -->.
+	 */
+	bibliography?: string | BibliographyConfig;
+
+	/**
+	 * Cover page shown as the first page, without header/footer and not
+	 * counted in page numbers. `true` uses the defaults: title from metadata
+	 * or the first heading, author from metadata, "minimal" template.
+	 */
+	cover?: CoverConfig | boolean;
+
+	/**
+	 * Text or image watermark drawn onto the pages of the PDF.
+	 * A string is shorthand for `{ text: "..." }`.
+	 * Note: Ignored when as_html is true.
+	 */
+	watermark?: string | WatermarkConfig;
+
 	/**
 	 * If true, generate fillable PDF forms with real AcroForm fields.
 	 * Form fields rendered by marked-forms will become interactive in PDF readers.
@@ -226,6 +349,22 @@ export interface Config {
 	 * Note: Ignored when as_html is true.
 	 */
 	fillable?: boolean;
+
+	/**
+	 * Encryption with a password to open the PDF and permissions (printing,
+	 * copying, ...) that the owner password lifts. Applied last, after
+	 * metadata and form fields.
+	 * Note: Ignored when as_html is true.
+	 */
+	security?: SecurityConfig;
+
+	/**
+	 * PDF bookmarks, from the headings: depth, heading numbers, expanded
+	 * levels, and bookmarks for the cover, figures, tables and anchors.
+	 * `false` leaves out the outline. Default: all headings, expanded.
+	 * Note: Ignored when as_html is true.
+	 */
+	outline?: boolean | OutlineConfig;
 }
 
 export type PuppeteerLaunchOptions = Parameters<typeof launch>[0];
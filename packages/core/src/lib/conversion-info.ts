@@ -3,12 +3,35 @@
  * Tracks what decisions were made during conversion
  */
 
+import type { AccessibilityIssue } from "./accessibility.js";
+import type { NamedDestination } from "./destinations.js";
+
 export interface FontInfo {
 	name: string;
 	source: "system" | "google" | "fallback-system" | "fallback-google";
 	preferred?: string; // Original font if this is a fallback
 }
 
+/**
+ * A file read during conversion
+ */
+export interface DependencyInfo {
+	/** Absolute path of the file */
+	path: string;
+	/** What the file was used for */
+	type:
+		| "markdown" // the input file
+		| "include" // pulled in by @include (file or named template)
+		| "file-ref" // @file reference in front-matter
+		| "theme" // built-in theme stylesheet
+		| "stylesheet" // auto-detected or user stylesheet
+		| "code-style" // highlight.js stylesheet
+		| "image" // header/footer, cover or watermark image
+		| "bibliography"; // BibTeX or CSL-JSON file for citations
+	/** File that pulled this one in (includes and @file references) */
+	from?: string;
+}
+
 export interface ConversionInfo {
 	theme?: string | false;
 	fontScale?: number;
@@ -26,11 +49,20 @@ export interface ConversionInfo {
 		header?: string;
 		footer?: string;
 	};
+	book?: {
+		chapters: number;
+	};
 	output?: {
 		path: string;
 		pages?: number;
 	};
+	/** Every file read during conversion, in the order it was read */
+	dependencies: DependencyInfo[];
 	warnings: string[];
+	/** Accessibility problems found in the rendered document */
+	accessibility: AccessibilityIssue[];
+	/** Named destinations in the PDF, for links like manual.pdf#name */
+	destinations?: NamedDestination[];
 }
 
 /**
@@ -39,16 +71,47 @@ export interface ConversionInfo {
 export function createConversionInfo(): ConversionInfo {
 	return {
 		fonts: {},
+		dependencies: [],
 		warnings: [],
+		accessibility: [],
 	};
 }
 
+/**
+ * Escape a path for use in a Makefile rule
+ */
+function escapeMakePath(path: string): string {
+	return path.replace(/([ #])/g, "\\$1").replace(/\$/g, "$$$$");
+}
+
+/**
+ * Format dependencies as a Makefile rule for the output file.
+ * Each dependency also gets an empty rule so make doesn't fail when a
+ * file is deleted (like gcc -MP).
+ */
+export function formatMakeDependencies(
+	target: string,
+	dependencies: DependencyInfo[],
+): string {
+	const paths = [...new Set(dependencies.map((dep) => dep.path))].map(
+		escapeMakePath,
+	);
+	const rule = [`${escapeMakePath(target)}:`, ...paths].join(" \\\n  ");
+	const phony = paths.map((path) => `${path}:`).join("\n\n");
+	return `${rule}\n\n${phony}\n`;
+}
+
 /**
  * Format conversion info for CLI display
  */
 export function formatConversionInfo(info: ConversionInfo): string {
 	const lines: string[] = [];
 
+	// Book mode
+	if (info.book) {
+		lines.push(`  book: ${info.book.chapters} chapters`);
+	}
+
 	// Theme
 	if (info.theme !== undefined) {
 		lines.push(`  theme: ${info.theme === false ? "none" : info.theme}`);
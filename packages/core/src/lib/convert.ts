@@ -5,35 +5,105 @@ import { basename, dirname, relative, resolve } from "node:path";
 const require: NodeRequire = createRequire(import.meta.url);
 
 import process from "node:process";
-import type { Browser } from "puppeteer";
-import { type Config, themes, themesDir } from "./config.js";
+import type { Browser, PDFOptions } from "puppeteer";
+import {
+	bibliographyCss,
+	loadBibliography,
+	processCitations,
+	type Reference,
+} from "./bibliography.js";
+import { assembleBook, getBookCss } from "./book.js";
+import { captionsCss } from "./captions.js";
+import { type Config, defaultConfig, themes, themesDir } from "./config.js";
 import {
 	type ConversionInfo,
 	createConversionInfo,
+	type DependencyInfo,
 } from "./conversion-info.js";
 import { formatCssErrors, validateCss } from "./css-validator.js";
-import { ConfigError, GenerationError, IncludeError } from "./errors.js";
+import { buildCoverHtml, type CoverConfig, coverCss } from "./cover.js";
+import { addDestinationMarkers, addNamedDestinations } from "./destinations.js";
+import {
+	ConfigError,
+	FileNotFoundError,
+	GenerationError,
+	IncludeError,
+} from "./errors.js";
 import { generateFontStylesheet } from "./fonts.js";
+import {
+	footnotesCss,
+	layoutPageFootnotes,
+	resolveFootnotes,
+} from "./footnotes.js";
 import { admonitionsCss } from "./admonitions.js";
 import { formFieldsCss } from "./form-fields.js";
 import { generateOutput } from "./generate-output.js";
+import { glossaryCss, glossaryWarnings } from "./glossary.js";
 import { processIcons } from "./icons.js";
 import { processIncludes } from "./includes.js";
 import { getHtml } from "./markdown.js";
+import { getKatexCss } from "./math.js";
+import { addMermaidLineNumbers, mermaidCss } from "./mermaid.js";
+import {
+	addOutline,
+	getOutlineEntries,
+	type OutlineConfig,
+} from "./outline.js";
+import {
+	addPageLabels,
+	drawOverlayPages,
+	getPageCounters,
+	pageNumberZonesCss,
+	processPageNumberZones,
+} from "./page-labels.js";
+import {
+	addPageRefMarkers,
+	fillPageRefs,
+	findPageRefs,
+	hasPageRefs,
+	pageRefsCss,
+} from "./page-refs.js";
 import {
+	buildPageNumberOverlay,
 	buildPuppeteerTemplate,
 	generatePagedCss,
+	getPageMargin,
 	hasBackground,
+	hasOddEven,
+	headerFooterPdfOptions,
+	mirrorMarginsCss,
+	needsPageNumberOverlay,
+	type PagedCssConfig,
+	pageSetupWarnings,
+	withoutPageNumbers,
 } from "./paged-css.js";
 import {
 	extractFirstHeading,
 	getMarginObject,
 	getOutputFilePath,
+	getPageSize,
+	lengthToPoints,
 	parseFrontMatter,
 	resolveFileRefs,
 } from "./util.js";
+import { applyPdfStandard } from "./pdf-metadata.js";
+import { encryptPdf } from "./security.js";
 import { formatValidationErrors, validateConfig } from "./validate-config.js";
-import { processXref } from "./xref.js";
+import {
+	addRunningHeadingMarkers,
+	getRunningHeadingLevels,
+	getRunningHeadingsCss,
+	RUNNING_HEADING_REGEX,
+} from "./running-headings.js";
+import {
+	MIN_MARGIN_WIDTH,
+	sidenotesCss,
+	sidenotesToFootnotes,
+} from "./sidenotes.js";
+import { getSourceLines, type SourceLine } from "./source-lines.js";
+import { mergeIndexPages, termIndexCss } from "./term-index.js";
+import { tocPageNumbersCss } from "./toc.js";
+import { processXref, resolveXrefNumbers } from "./xref.js";
 
 // Chrome 131+ supports @page margin boxes natively, no paged.js polyfill needed
 
@@ -41,8 +111,15 @@ import { processXref } from "./xref.js";
 interface ConvertOptions {
 	"--as-html"?: boolean;
 	"--fillable"?: boolean;
+	"--no-accessibility"?: boolean;
 }
 
+/** Markdown input: a file, a string, or the chapter files of a book */
+export type ConvertInput =
+	| { path: string }
+	| { content: string }
+	| { book: string[] };
+
 /** Output from convertMdToPdf */
 export interface ConvertResult {
 	filename: string | undefined;
@@ -54,7 +131,7 @@ export interface ConvertResult {
  * Convert markdown to pdf.
  */
 export const convertMdToPdf = async (
-	input: { path: string } | { content: string },
+	input: ConvertInput,
 	config: Config,
 	{
 		args = {},
@@ -67,24 +144,84 @@ export const convertMdToPdf = async (
 	// Track conversion info for CLI output
 	const info = createConversionInfo();
 
-	const mdFileContent =
-		"content" in input
-			? input.content
-			: await fs.readFile(input.path, { encoding: "utf-8" });
+	// Track every file read, for watch mode and build systems
+	const addDependency = (
+		path: string,
+		type: DependencyInfo["type"],
+		from?: string,
+	): void => {
+		if (!info.dependencies.some((dep) => dep.path === path)) {
+			info.dependencies.push(from ? { path, type, from } : { path, type });
+		}
+	};
+
+	// Paths are relative to the markdown file, or the config for books
+	const baseDir =
+		"path" in input
+			? dirname(resolve(input.path))
+			: "book" in input
+				? resolve(config.basedir)
+				: process.cwd();
 
-	const { content: md, data: rawFrontMatter } = parseFrontMatter(mdFileContent);
+	let md: string;
+	let sourceLines: SourceLine[];
+	let frontMatterConfig: Partial<Config>;
+	let inputPath: string | undefined;
+
+	if ("book" in input) {
+		// Book mode: chapters are combined with their includes expanded.
+		// Chapter front-matter only sets templates for the chapter's includes,
+		// the book is configured by the config file
+		let book: Awaited<ReturnType<typeof assembleBook>>;
+		try {
+			book = await assembleBook(input.book, {
+				baseDir,
+				templates: config.templates,
+				onRead: addDependency,
+			});
+		} catch (error) {
+			const err = error as Error;
+			throw new IncludeError("", err.message);
+		}
+		md = book.content;
+		sourceLines = book.lines;
+		frontMatterConfig = {};
+		info.warnings.push(...book.warnings);
+		info.book = { chapters: book.files.length };
+		// Stylesheet auto-detection and output path use book.css / book.pdf
+		inputPath = resolve(baseDir, "book.md");
+	} else {
+		const mdFileContent =
+			"content" in input
+				? input.content
+				: await fs.readFile(input.path, { encoding: "utf-8" });
+
+		inputPath = "path" in input ? resolve(input.path) : undefined;
+		if (inputPath) {
+			addDependency(inputPath, "markdown");
+		}
+
+		// Mermaid blocks get their line number first, so errors point to the source
+		const {
+			content,
+			data: rawFrontMatter,
+			line,
+		} = parseFrontMatter(addMermaidLineNumbers(mdFileContent));
+		md = content;
+		sourceLines = getSourceLines(content, undefined, line);
+
+		// resolve @filename references in front-matter relative to markdown file
+		const from = inputPath;
+		frontMatterConfig = await resolveFileRefs(
+			rawFrontMatter as Partial<Config>,
+			baseDir,
+			(path) => addDependency(path, "file-ref", from),
+		);
+	}
 
 	// Extract title early for header/footer {title} variable
 	const docTitle = extractFirstHeading(md) ?? "";
 
-	// resolve @filename references in front-matter relative to markdown file
-	const baseDir =
-		"path" in input ? dirname(resolve(input.path)) : process.cwd();
-	const frontMatterConfig = await resolveFileRefs(
-		rawFrontMatter as Partial<Config>,
-		baseDir,
-	);
-
 	// merge front-matter config
 	config = {
 		...config,
@@ -101,6 +238,13 @@ export const convertMdToPdf = async (
 		info.warnings.push(formatValidationErrors(validationErrors));
 	}
 
+	// PDF/A documents must open without a password
+	if (config.pdf_standard && config.security) {
+		throw new ConfigError(
+			`pdf_standard "${config.pdf_standard}" doesn't allow encryption: remove security or pdf_standard`,
+		);
+	}
+
 	// Note: displayHeaderFooter auto-enable is handled after simplified header/footer processing below
 
 	const arrayOptions = ["body_class", "script", "stylesheet"] as const;
@@ -114,7 +258,7 @@ export const convertMdToPdf = async (
 	}
 
 	// Resolve relative stylesheet paths from front-matter
-	if (frontMatterConfig.stylesheet && "path" in input) {
+	if (frontMatterConfig.stylesheet && inputPath) {
 		config.stylesheet = config.stylesheet.map((s) =>
 			typeof s === "string" && !s.startsWith("/") && !s.includes("\n")
 				? resolve(baseDir, s)
@@ -123,8 +267,8 @@ export const convertMdToPdf = async (
 	}
 
 	// Auto-detect stylesheet if not specified
-	if (config.stylesheet.length === 0 && "path" in input) {
-		const mdBasename = basename(input.path, ".md");
+	if (config.stylesheet.length === 0 && inputPath) {
+		const mdBasename = basename(inputPath, ".md");
 		const candidateCss = resolve(baseDir, `${mdBasename}.css`);
 		const indexCss = resolve(baseDir, "index.css");
 
@@ -182,6 +326,83 @@ export const convertMdToPdf = async (
 		info.warnings.push(...fontResult.warnings);
 	}
 
+	// Process @include directives (file paths or template names)
+	// The source lines name the line of the file in warnings, up to the
+	// page number zones, so the steps until then keep the lines as they are
+	let processedMd = md;
+	try {
+		const included = await processIncludes(md, baseDir, {
+			templates: config.templates,
+			from: inputPath,
+			onInclude: (path: string, from?: string): void =>
+				addDependency(path, "include", from),
+			lines: sourceLines,
+		});
+		processedMd = included.content;
+		sourceLines = included.lines;
+	} catch (error) {
+		const err = error as Error;
+		throw new IncludeError("", err.message);
+	}
+
+	// Process @see Section Name → [Section Name](#section-name)
+	const xref = processXref(processedMd, sourceLines);
+	processedMd = xref.content;
+
+	// Resolve [@key] citations against the bibliography file
+	const bibliography =
+		typeof config.bibliography === "string"
+			? { file: config.bibliography }
+			: config.bibliography;
+	if (bibliography?.file) {
+		const bibliographyPath = resolve(baseDir, bibliography.file);
+		addDependency(bibliographyPath, "bibliography");
+
+		let references: Map<string, Reference>;
+		try {
+			references = await loadBibliography(bibliographyPath);
+		} catch (error) {
+			const err = error as NodeJS.ErrnoException;
+			if (err.code === "ENOENT") {
+				throw new FileNotFoundError(bibliographyPath, "Bibliography not found");
+			}
+			throw new ConfigError(
+				`Invalid bibliography ${bibliography.file}: ${err.message}`,
+			);
+		}
+
+		const citations = processCitations(
+			processedMd,
+			references,
+			bibliography.style,
+			sourceLines,
+		);
+		processedMd = citations.content;
+		info.warnings.push(...citations.warnings);
+	}
+
+	// Split into page number zones: <!-- page-numbers: roman -->
+	const pageNumberZones = processPageNumberZones(
+		processedMd,
+		config.page_numbers,
+		sourceLines,
+	);
+	processedMd = pageNumberZones.content;
+	info.warnings.push(...pageNumberZones.warnings);
+	const { zones } = pageNumberZones;
+
+	// Process :icon[prefix:name] syntax - fetch and inline SVGs from Iconify
+	try {
+		processedMd = await processIcons(processedMd);
+	} catch (error) {
+		const err = error as Error;
+		info.warnings.push(
+			`Icon processing failed: ${err.message} (continuing with placeholders)`,
+		);
+	}
+
+	const footnotes = resolveFootnotes(config.footnotes);
+
 	// Build stylesheet list: theme, fonts, font_scale, built-in features, user stylesheets
 	// Order matters: theme first, fonts override theme, user overrides all
 	const baseStylesheets: string[] = [];
@@ -191,6 +412,28 @@ export const convertMdToPdf = async (
 	// Add built-in extension CSS (always available)
 	baseStylesheets.push(formFieldsCss);
 	baseStylesheets.push(admonitionsCss);
+	baseStylesheets.push(captionsCss);
+	baseStylesheets.push(termIndexCss);
+	baseStylesheets.push(glossaryCss);
+	baseStylesheets.push(sidenotesCss);
+	if (footnotes.placement === "page") baseStylesheets.push(footnotesCss);
+	baseStylesheets.push(mermaidCss);
+	if (bibliography) baseStylesheets.push(bibliographyCss);
+	baseStylesheets.push(pageRefsCss);
+	if (config.toc_options?.page_numbers) {
+		baseStylesheets.push(tocPageNumbersCss);
+	}
+	if (zones.some((zone) => zone.name)) {
+		baseStylesheets.push(pageNumberZonesCss);
+	}
+	if ("book" in input) {
+		baseStylesheets.push(getBookCss(config.book?.page_break));
+	}
+
+	// `cover: true` uses the defaults for everything
+	const cover: CoverConfig | undefined =
+		config.cover === true ? {} : config.cover || undefined;
+	if (cover) baseStylesheets.push(coverCss);
 
 	// Apply font_scale if set (scales the base 12pt size)
 	if (config.font_scale && config.font_scale !== 1) {
@@ -212,6 +455,13 @@ export const convertMdToPdf = async (
 		config.stylesheet = [...config.stylesheet, printUrlsCss];
 	}
 
+	// Page margins, when the @page rule sets them instead of Puppeteer
+	let cssPageMargin: PDFOptions["margin"];
+
+	// Headers/footers with a background whose page numbers are drawn over
+	// the pages
+	let pageNumberOverlay: PagedCssConfig | undefined;
+
 	// Process simplified header/footer config
 	if (config.header || config.footer) {
 		const headerFooterConfig = {
@@ -219,8 +469,15 @@ export const convertMdToPdf = async (
 			footer: config.footer,
 			page_numbers: config.page_numbers,
 			title: docTitle,
+			cover: cover !== undefined,
+			zones,
+			mirror_margins: config.mirror_margins,
+			pdf_options: { ...config.pdf_options },
 		};
 
+		// Header/footer images and backgrounds are embedded as data URIs
+		const addImage = (path: string): void => addDependency(path, "image");
+
 		// Helper to summarize header/footer config
 		const summarize = (cfg: typeof config.header): string | undefined => {
 			if (!cfg) return;
@@ -231,22 +488,62 @@ export const convertMdToPdf = async (
 
 		// Check if backgrounds are used (requires Puppeteer templates)
 		if (hasBackground(headerFooterConfig)) {
+			// Page numbers Puppeteer can't count are drawn over the pages
+			// after rendering, the templates get the other columns
+			if (needsPageNumberOverlay(headerFooterConfig)) {
+				pageNumberOverlay = headerFooterConfig;
+			}
+			const templateValue = (
+				value: typeof config.header,
+			): typeof config.header =>
+				pageNumberOverlay ? withoutPageNumbers(value) : value;
+
 			// Use Puppeteer's native header/footer templates for backgrounds
 			if (config.header) {
 				config.pdf_options.headerTemplate = await buildPuppeteerTemplate(
-					config.header,
+					templateValue(config.header),
 					"header",
 					baseDir,
+					addImage,
 				);
 			}
 			if (config.footer) {
 				config.pdf_options.footerTemplate = await buildPuppeteerTemplate(
-					config.footer,
+					templateValue(config.footer),
 					"footer",
 					baseDir,
+					addImage,
 				);
 			}
 			config.pdf_options.displayHeaderFooter = true;
+			if (cover) {
+				info.warnings.push(
+					"Cover page: headers/footers with a background are also shown on the cover and count it as page 1",
+				);
+			}
+			const runningHeadings = new Set(
+				[config.header, config.footer].flatMap((cfg) =>
+					Array.from(
+						JSON.stringify(cfg ?? "").matchAll(RUNNING_HEADING_REGEX),
+						([variable]) => variable,
+					),
+				),
+			);
+			if (runningHeadings.size > 0) {
+				info.warnings.push(
+					`Header/footer: running headings (${[...runningHeadings].join(", ")}) are not supported with backgrounds and are left empty`,
+				);
+			}
+			if ([config.header, config.footer].some(hasOddEven)) {
+				info.warnings.push(
+					"Header/footer: odd/even pages are not supported with backgrounds, every page shows left/center/right",
+				);
+			}
+			if (config.mirror_margins) {
+				info.warnings.push(
+					"Mirrored margins: not supported with header/footer backgrounds and ignored",
+				);
+			}
 			info.headerFooter = {
 				type: "puppeteer",
 				header: summarize(config.header),
@@ -254,6 +551,11 @@ export const convertMdToPdf = async (
 			};
 		} else {
 			// Use paged.js for text-only headers/footers
+			headerFooterConfig.pdf_options = headerFooterPdfOptions(
+				headerFooterConfig.pdf_options,
+				defaultConfig.pdf_options,
+			);
+
 			// Collect all CSS for header/footer styling
 			const cssContents: string[] = [];
 			for (const stylesheet of config.stylesheet) {
@@ -280,13 +582,17 @@ export const convertMdToPdf = async (
 				headerFooterConfig,
 				allCss,
 				baseDir,
+				addImage,
 			);
 
 			// Add paged CSS to stylesheets (uses native Chrome @page margin boxes)
 			config.stylesheet = [...config.stylesheet, pagedCss];
 
+			info.warnings.push(...pageSetupWarnings(headerFooterConfig));
+
 			// Chrome 131+ supports @page margin boxes natively, no paged.js needed
 			// Set Puppeteer margins to 0 - the @page rule handles margins
+			cssPageMargin = getPageMargin(headerFooterConfig.pdf_options);
 			config.pdf_options.margin = {
 				top: "0mm",
 				right: "0mm",
@@ -305,6 +611,24 @@ export const convertMdToPdf = async (
 		}
 	} else {
 		info.headerFooter = { type: "none" };
+
+		// Mirrored margins need @page rules per side instead of Puppeteer's
+		// margins
+		if (config.mirror_margins) {
+			const margin = config.pdf_options.margin;
+			cssPageMargin =
+				(typeof margin === "string" ? getMarginObject(margin) : margin) ?? {};
+			config.stylesheet = [
+				...config.stylesheet,
+				mirrorMarginsCss(cssPageMargin, config.mirror_margins),
+			];
+			config.pdf_options.margin = {
+				top: "0mm",
+				right: "0mm",
+				bottom: "0mm",
+				left: "0mm",
+			};
+		}
 	}
 
 	// Auto-enable displayHeaderFooter if raw templates are set via pdf_options
@@ -314,33 +638,21 @@ export const convertMdToPdf = async (
 		config.pdf_options.displayHeaderFooter = true;
 	}
 
-	// Process @include directives (file paths or template names)
-	let processedMd = md;
-	try {
-		processedMd = await processIncludes(md, baseDir, config.templates);
-	} catch (error) {
-		const err = error as Error;
-		throw new IncludeError("", err.message);
-	}
-
-	// Process :icon[prefix:name] syntax - fetch and inline SVGs from Iconify
-	try {
-		processedMd = await processIcons(processedMd);
-	} catch (error) {
-		const err = error as Error;
-		info.warnings.push(
-			`Icon processing failed: ${err.message} (continuing with placeholders)`,
-		);
-	}
-
-	// Process @see Section Name → [Section Name](#section-name)
-	processedMd = processXref(processedMd);
-
 	// auto-detect document title from first heading if not set
 	if (!config.document_title) {
 		config.document_title = extractFirstHeading(processedMd) ?? "";
 	}
 
+	// Metadata is always written, so viewers show the document title
+	config.metadata ??= {};
+
+	// Resolve watermark image relative to markdown file
+	if (typeof config.watermark === "object" && config.watermark.image) {
+		const image = resolve(baseDir, config.watermark.image);
+		config.watermark = { ...config.watermark, image };
+		addDependency(image, "image");
+	}
+
 	// merge --as-html from CLI args
 	if (args["--as-html"]) {
 		config.as_html = true;
@@ -351,17 +663,42 @@ export const convertMdToPdf = async (
 		config.fillable = true;
 	}
 
+	// merge --no-accessibility from CLI args
+	if (args["--no-accessibility"]) {
+		config.check_accessibility = false;
+	}
+
 	// sanitize the margin in pdf_options
 	if (typeof config.pdf_options.margin === "string") {
 		config.pdf_options.margin = getMarginObject(config.pdf_options.margin);
 	}
 
+	// Page margins, for layouts that depend on the text area
+	const pageMargin = cssPageMargin ?? config.pdf_options.margin;
+
+	// Sidenotes go in a margin column with the tufte theme, when the text
+	// is wide enough to give up a third of it. Otherwise they are footnotes
+	const sidenoteMode = config.sidenotes ?? "auto";
+	const textWidth =
+		getPageSize(config.pdf_options).width -
+		lengthToPoints(pageMargin?.left) -
+		lengthToPoints(pageMargin?.right);
+	if (
+		sidenoteMode === "margin" ||
+		(sidenoteMode === "auto" &&
+			config.theme === "tufte" &&
+			textWidth >= MIN_MARGIN_WIDTH)
+	) {
+		config.body_class = [...config.body_class, "sidenotes"];
+	} else {
+		processedMd = sidenotesToFootnotes(processedMd);
+	}
+
 	// set output destination
 	if (config.dest === undefined) {
-		config.dest =
-			"path" in input
-				? getOutputFilePath(input.path, config.as_html ? "html" : "pdf")
-				: "stdout";
+		config.dest = inputPath
+			? getOutputFilePath(inputPath, config.as_html ? "html" : "pdf")
+			: "stdout";
 	}
 
 	const highlightStylesheet = resolve(
@@ -405,6 +742,14 @@ export const convertMdToPdf = async (
 					);
 				}
 				validatedStylesheets.push(stylesheet);
+				addDependency(
+					resolve(stylesheet),
+					stylesheet === themeStylesheet
+						? "theme"
+						: stylesheet === highlightStylesheet
+							? "code-style"
+							: "stylesheet",
+				);
 			} catch (error) {
 				const err = error as NodeJS.ErrnoException;
 				if (err.code === "ENOENT") {
@@ -417,15 +762,162 @@ export const convertMdToPdf = async (
 	}
 	config.stylesheet = validatedStylesheets;
 
-	const html = getHtml(processedMd, config);
+	const coverHtml = cover
+		? await buildCoverHtml(
+				cover,
+				{
+					title: config.metadata?.title || docTitle || undefined,
+					author: config.metadata?.author,
+				},
+				baseDir,
+				(path) => addDependency(path, "image"),
+			)
+		: "";
+
+	// @see(...){number} → heading number from the rendered headings, and
+	// missing targets of @see references
+	const xrefNumbers = resolveXrefNumbers(
+		getHtml(processedMd, config, coverHtml),
+		xref.references,
+	);
+	let html = xrefNumbers.content;
+	info.warnings.push(...xrefNumbers.warnings, ...glossaryWarnings(html));
+
+	// KaTeX styles and fonts, only when the document contains math
+	if (html.includes('class="katex')) {
+		config.stylesheet = [await getKatexCss(), ...config.stylesheet];
+	}
 
 	const relativePath =
 		"path" in input ? relative(config.basedir, input.path) : ".";
 
+	// Puppeteer header/footer templates count the cover as page 1
+	const pageLabelOptions = {
+		cover: cover !== undefined && info.headerFooter?.type !== "puppeteer",
+	};
+
+	// Draft renders only tell where content lands on the pages
+	const draftConfig: Config = {
+		...config,
+		metadata: undefined,
+		watermark: undefined,
+		fillable: false,
+		check_accessibility: false,
+	};
+
 	let output: Awaited<ReturnType<typeof generateOutput>>;
 	try {
-		output = await generateOutput(html, relativePath, config, browser);
+		// Page footnotes: a layout pass places the notes of one page per
+		// draft render, as Chrome doesn't support float: footnote
+		if (!config.as_html && footnotes.placement === "page") {
+			const layout = await layoutPageFootnotes(
+				html,
+				async (draftHtml) => {
+					const draft = await generateOutput(
+						fillPageRefs(draftHtml),
+						relativePath,
+						draftConfig,
+						browser,
+					);
+					return draft.content as Uint8Array;
+				},
+				{
+					numbering: footnotes.numbering,
+					bottom: lengthToPoints(pageMargin?.bottom),
+					scale: config.pdf_options.scale ?? 1,
+				},
+			);
+			html = layout.content;
+			info.warnings.push(...layout.warnings);
+		}
+
+		// Page references (TOC and index page numbers, @see(...){page}): a draft render
+		// tells on which page each target lands, as Chrome doesn't support
+		// target-counter()
+		if (!config.as_html && hasPageRefs(html)) {
+			const draft = await generateOutput(
+				addPageRefMarkers(fillPageRefs(html)),
+				relativePath,
+				draftConfig,
+				browser,
+			);
+			const pages = await findPageRefs(
+				Buffer.from(draft.content),
+				zones,
+				pageLabelOptions,
+			);
+			html = mergeIndexPages(fillPageRefs(html, pages));
+		}
+
+		// Running headings ({chapter}, {section}, {heading:N}): a draft render
+		// tells which headings each page shows, as Chrome doesn't support
+		// string-set. The margin boxes get them as counter styles
+		const runningHeadingLevels = getRunningHeadingLevels([
+			config.header,
+			config.footer,
+		]);
+		if (
+			!config.as_html &&
+			info.headerFooter?.type === "css @page" &&
+			runningHeadingLevels.length > 0
+		) {
+			const draft = await generateOutput(
+				addRunningHeadingMarkers(html),
+				relativePath,
+				draftConfig,
+				browser,
+			);
+			const runningHeadingsCss = await getRunningHeadingsCss(
+				Buffer.from(draft.content),
+				html,
+				zones,
+				{ ...pageLabelOptions, levels: runningHeadingLevels },
+			);
+			config.stylesheet = [...config.stylesheet, runningHeadingsCss];
+		}
+
+		// Page markers at the headings and @anchors, for named destinations
+		output = await generateOutput(
+			config.as_html ? html : addDestinationMarkers(html),
+			relativePath,
+			config,
+			browser,
+		);
+
+		// Formatted page numbers for Puppeteer's header/footer templates: an
+		// overlay render with one page for each page of the PDF
+		if (!config.as_html && pageNumberOverlay) {
+			const counters = await getPageCounters(
+				Buffer.from(output.content),
+				zones,
+				pageLabelOptions,
+			);
+			const size = getPageSize(config.pdf_options);
+			const overlay = await generateOutput(
+				buildPageNumberOverlay(pageNumberOverlay, counters, size),
+				relativePath,
+				{
+					...draftConfig,
+					stylesheet: [],
+					script: [],
+					pdf_options: {
+						width: `${size.width / 72}in`,
+						height: `${size.height / 72}in`,
+						margin: { top: 0, right: 0, bottom: 0, left: 0 },
+						printBackground: true,
+						omitBackground: true,
+					},
+				},
+				browser,
+			);
+			output.content = await drawOverlayPages(
+				Buffer.from(output.content),
+				Buffer.from(overlay.content),
+			);
+		}
 	} catch (error) {
+		// e.g. watermark text the watermark font can't show
+		if (error instanceof ConfigError) throw error;
 		const err = error as Error;
 		const outputType = config.as_html ? "HTML" : "PDF";
 		// Provide context about what failed
@@ -447,6 +939,70 @@ export const convertMdToPdf = async (
 		);
 	}
 
+	if (output.warnings) {
+		info.warnings.push(...output.warnings);
+	}
+	info.accessibility = output.accessibility ?? [];
+
+	// Named destinations, so links like manual.pdf#installation open at the
+	// heading. Before the page labels, which remove all page markers
+	if (!config.as_html) {
+		const named = await addNamedDestinations(Buffer.from(output.content));
+		output.content = named.content;
+		info.destinations = named.destinations;
+
+		// Bookmarks, pointing to the named destinations. By default as deep
+		// as the TOC
+		if (config.outline !== false) {
+			const outlineConfig: OutlineConfig = {
+				max_depth: config.toc_options?.maxdepth,
+				...(typeof config.outline === "object" ? config.outline : {}),
+			};
+			const outline = await addOutline(
+				Buffer.from(output.content),
+				getOutlineEntries(html, outlineConfig),
+				{
+					openLevels: outlineConfig.open_levels,
+					destinations: named.destinations,
+				},
+			);
+			output.content = outline.content;
+			info.warnings.push(...outline.warnings);
+		}
+	}
+
+	// Page labels, so PDF viewers show the same page numbers as the pages.
+	// Only written when they differ from the page index. With zone markers,
+	// this also removes their page markers
+	if (
+		!config.as_html &&
+		(zones.some((zone) => zone.name) || config.page_numbers || cover)
+	) {
+		output.content = await addPageLabels(
+			Buffer.from(output.content),
+			zones,
+			pageLabelOptions,
+		);
+	}
+
+	// PDF/A after the last other change, so the XMP metadata is up to date
+	if (!config.as_html && config.pdf_standard) {
+		const archival = await applyPdfStandard(
+			Buffer.from(output.content),
+			config.pdf_standard,
+		);
+		output.content = archival.content;
+		info.warnings.push(...archival.warnings);
+	}
+
+	// Encryption comes last, the PDF can't be changed after it
+	if (!config.as_html && config.security) {
+		output.content = await encryptPdf(
+			Buffer.from(output.content),
+			config.security,
+		);
+	}
+
 	if (output.filename) {
 		if (output.filename === "stdout") {
 			process.stdout.write(output.content);
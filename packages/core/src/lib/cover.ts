@@ -0,0 +1,217 @@
+import { formatDate, imageToDataUri } from "./paged-css.js";
+import { escapeHtml } from "./util.js";
+
+/**
+ * Built-in cover page templates
+ */
+export const coverTemplates = ["minimal", "corporate", "academic"] as const;
+export type CoverTemplate = (typeof coverTemplates)[number];
+
+/**
+ * Cover page configuration.
+ *
+ * @example
+ * ```yaml
+ * cover:
+ *   title: "Project Proposal"      # default: metadata.title or first heading
+ *   subtitle: "Q1 2025 Initiative"
+ *   authors: ["Jane Smith", "John Doe"]  # default: metadata.author
+ *   date: auto                     # or any string
+ *   version: "1.0"
+ *   logo: company-logo.svg
+ *   organization: "Acme Corp"
+ *   background: cover-bg.jpg
+ *   template: corporate            # minimal (default), corporate, academic
+ * ```
+ */
+export interface CoverConfig {
+	title?: string;
+	subtitle?: string;
+	/** One author or a list of authors */
+	authors?: string | string[];
+	/** Date shown on the cover, "auto" for today's date */
+	date?: string;
+	version?: string;
+	/** Logo image path (relative to the markdown file) */
+	logo?: string;
+	organization?: string;
+	/** Full-page background image path (relative to the markdown file) */
+	background?: string;
+	/** Built-in template. Default: "minimal" */
+	template?: CoverTemplate;
+}
+
+/**
+ * Values used when the cover config doesn't set them
+ */
+export interface CoverFallbacks {
+	/** metadata.title or the first heading */
+	title?: string;
+	/** metadata.author */
+	author?: string;
+}
+
+/**
+ * Build the cover page HTML.
+ * Images are embedded as data URIs, the optional onRead callback receives
+ * the path of every image read.
+ */
+export async function buildCoverHtml(
+	cover: CoverConfig,
+	fallbacks: CoverFallbacks,
+	baseDir: string,
+	onRead?: (path: string) => void,
+): Promise<string> {
+	const template = cover.template ?? "minimal";
+	const title = cover.title ?? fallbacks.title;
+	const authors = cover.authors ?? (fallbacks.author ? [fallbacks.author] : []);
+	const authorList = Array.isArray(authors) ? authors : [authors];
+	const date = cover.date === "auto" ? formatDate() : cover.date;
+
+	const logoUri = cover.logo
+		? await imageToDataUri(cover.logo, baseDir, onRead)
+		: null;
+	const backgroundUri = cover.background
+		? await imageToDataUri(cover.background, baseDir, onRead)
+		: null;
+
+	const element = (tag: string, className: string, text?: string): string =>
+		text ? `<${tag} class="${className}">${escapeHtml(text)}</${tag}>` : "";
+
+	const parts = [
+		logoUri
+			? `<img class="cover-logo" src="${logoUri}" alt="" role="presentation">`
+			: "",
+		element("div", "cover-organization", cover.organization),
+		`<div class="cover-heading">${element("p", "cover-title", title)}${element("p", "cover-subtitle", cover.subtitle)}</div>`,
+		`<div class="cover-details">${authorList.map((author) => element("p", "cover-author", author)).join("")}${element("p", "cover-date", date)}${element("p", "cover-version", cover.version ? `Version ${cover.version}` : undefined)}</div>`,
+	];
+
+	const style = backgroundUri
+		? ` style="background-image: url('${backgroundUri}')"`
+		: "";
+
+	return `<section class="cover cover-${template}"${style}>${parts.join("")}</section>\n`;
+}
+
+/**
+ * CSS for the cover page and its templates.
+ * The cover is the first page: no margins, header/footer are suppressed
+ * by the @page:first rules in paged-css.ts.
+ */
+export const coverCss = `
+@page:first {
+  margin: 0;
+}
+
+.cover {
+  box-sizing: border-box;
+  height: 100vh;
+  overflow: hidden;
+  display: flex;
+  flex-direction: column;
+  padding: 25mm 20mm;
+  break-after: page;
+  background-size: cover;
+  background-position: center;
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+}
+
+.cover p {
+  margin: 0;
+}
+
+.cover-title {
+  font-family: var(--font-heading, var(--font-body));
+  font-size: 2.6em;
+  font-weight: 600;
+  line-height: 1.2;
+}
+
+.cover .cover-subtitle {
+  margin-top: 0.5em;
+  font-size: 1.4em;
+  color: var(--color-text-muted, #666);
+}
+
+.cover-logo {
+  max-width: 50mm;
+  max-height: 25mm;
+  object-fit: contain;
+}
+
+.cover-details {
+  margin-top: auto;
+}
+
+.cover-author {
+  font-size: 1.15em;
+}
+
+.cover-date,
+.cover-version {
+  color: var(--color-text-muted, #666);
+}
+
+/* Minimal - centered, lots of whitespace */
+.cover-minimal {
+  align-items: center;
+  justify-content: center;
+  text-align: center;
+}
+
+.cover-minimal .cover-heading {
+  margin: auto 0;
+  padding: 1em 0;
+  border-top: 1px solid var(--color-border, #bababa);
+  border-bottom: 1px solid var(--color-border, #bababa);
+}
+
+.cover-minimal .cover-details {
+  margin-top: 0;
+}
+
+/* Corporate - logo top left, accent bar, title bottom left */
+.cover-corporate {
+  border-left: 12mm solid var(--color-primary, #42b983);
+}
+
+.cover-corporate .cover-organization {
+  margin-top: 0.5em;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.1em;
+  color: var(--color-primary, #42b983);
+}
+
+.cover-corporate .cover-heading {
+  margin-top: auto;
+}
+
+.cover-corporate .cover-details {
+  margin-top: 3em;
+  padding-top: 1em;
+  border-top: 2px solid var(--color-primary, #42b983);
+}
+
+/* Academic - centered, institution on top, authors and date at the bottom */
+.cover-academic {
+  align-items: center;
+  text-align: center;
+}
+
+.cover-academic .cover-logo {
+  margin-bottom: 1em;
+}
+
+.cover-academic .cover-organization {
+  font-size: 1.2em;
+  font-variant: small-caps;
+  letter-spacing: 0.05em;
+}
+
+.cover-academic .cover-heading {
+  margin: auto 0;
+}
+`;
@@ -0,0 +1,84 @@
+/**
+ * Named destinations for mdforge.
+ *
+ * Every heading id, figure and table id and @anchor becomes a named
+ * destination in the PDF, so links like manual.pdf#installation open at
+ * the heading in PDF viewers. The outline points to them too.
+ * The final render has a page marker at each target (see page-markers.ts),
+ * which tells where it landed.
+ */
+
+import { PDFDict, PDFDocument, PDFName, PDFNull } from "@folknor/pdf-lib";
+import { addTargetMarkers, extractPageMarkers } from "./page-markers.js";
+
+/**
+ * Page marker id prefix for named destinations
+ */
+const MARKER_PREFIX = "dest:";
+
+/**
+ * A named destination in the PDF
+ */
+export interface NamedDestination {
+	/** Name, the id of the heading, figure or @anchor: manual.pdf#name */
+	name: string;
+	/** Page number (1-based page index) */
+	page: number;
+}
+
+/**
+ * Regex to match the opening tag of a heading or figure with an id, or an
+ * @anchor
+ */
+const DESTINATION_TAG_REGEX = /^<(?:h[1-6]\b|figure\b|a id="[^"]*">$)/;
+
+/**
+ * PDF name of a named destination. Names are bytes, viewers read them as
+ * UTF-8
+ */
+export function destinationName(name: string): PDFName {
+	return PDFName.of(Buffer.from(name, "utf8").toString("latin1"));
+}
+
+/**
+ * Add a page marker to every heading and figure with an id, and every
+ * @anchor
+ */
+export function addDestinationMarkers(html: string): string {
+	return addTargetMarkers(html, MARKER_PREFIX, (_id, tag) =>
+		DESTINATION_TAG_REGEX.test(tag),
+	);
+}
+
+/**
+ * Write the named destinations of the page markers into a PDF, next to
+ * any that Chrome wrote for internal links
+ */
+export async function addNamedDestinations(
+	pdfBuffer: Buffer,
+): Promise<{ content: Buffer; destinations: NamedDestination[] }> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const markers = extractPageMarkers(pdfDoc, MARKER_PREFIX);
+	if (markers.length === 0) return { content: pdfBuffer, destinations: [] };
+
+	const pages = pdfDoc.getPages();
+	const dests =
+		pdfDoc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict) ??
+		pdfDoc.context.obj({});
+	const destinations: NamedDestination[] = [];
+
+	for (const { id, pageIndex, y } of markers) {
+		const page = pages[pageIndex];
+		if (!page) continue;
+		const name = id.slice(MARKER_PREFIX.length);
+		dests.set(
+			destinationName(name),
+			pdfDoc.context.obj([page.ref, "XYZ", PDFNull, y, PDFNull]),
+		);
+		destinations.push({ name, page: pageIndex + 1 });
+	}
+	pdfDoc.catalog.set(PDFName.of("Dests"), dests);
+
+	const modifiedPdf = await pdfDoc.save();
+	return { content: Buffer.from(modifiedPdf), destinations };
+}
@@ -0,0 +1,508 @@
+/**
+ * Page footnotes for mdforge.
+ *
+ * By default footnotes ([^1]) are endnotes, collected at the end of the
+ * document. With `footnotes: page` each note is placed at the bottom of
+ * the page its first reference lands on.
+ *
+ * Paged media engines do this with `float: footnote`, which Chrome doesn't
+ * support. Instead the notes are placed by a layout pass, one page at a
+ * time: a draft render with page markers at the references, between the
+ * blocks of the document and around every note tells where the references
+ * land, where the page can be cut and how tall the notes are. The notes of
+ * the first page with references go after the last block that leaves room
+ * for them, followed by a page break, and the next draft places the notes
+ * of the following page. Every page with notes takes a draft render, up to
+ * MAX_FOOTNOTE_PAGES.
+ */
+
+import { PDFDocument } from "@folknor/pdf-lib";
+import {
+	extractPageMarkers,
+	type PageMarker,
+	pageMarkerCss,
+	pageMarkerHtml,
+} from "./page-markers.js";
+
+/**
+ * Where footnotes are placed
+ */
+export const footnotePlacements = ["end", "page"] as const;
+export type FootnotePlacement = (typeof footnotePlacements)[number];
+
+/**
+ * How page footnotes are numbered
+ */
+export const footnoteNumberings = ["document", "page", "chapter"] as const;
+export type FootnoteNumbering = (typeof footnoteNumberings)[number];
+
+/**
+ * Footnotes configuration.
+ *
+ * @example
+ * ```yaml
+ * footnotes: page          # notes at the bottom of the page
+ *
+ * footnotes:
+ *   placement: page
+ *   numbering: chapter     # document (default), page, chapter
+ * ```
+ */
+export interface FootnotesConfig {
+	/** Endnotes at the end of the document, or notes at the page bottom. Default: "end" */
+	placement?: FootnotePlacement;
+	/** Numbering of page footnotes: through the document, or restarting on every page or chapter. Default: "document" */
+	numbering?: FootnoteNumbering;
+}
+
+/**
+ * Page geometry the layout pass needs, in PDF points
+ */
+export interface PageFootnotesOptions {
+	numbering: FootnoteNumbering;
+	/** Bottom page margin: where the content area ends */
+	bottom: number;
+	/** pdf_options.scale */
+	scale: number;
+}
+
+/**
+ * Regex to match the endnotes section of marked-footnote
+ */
+const FOOTNOTES_SECTION_REGEX =
+	/<section class="footnotes" data-footnotes>[\s\S]*?<ol>\n?([\s\S]*)<\/ol>\s*<\/section>\n?/;
+
+/**
+ * Regex to match the start of an endnote
+ */
+const FOOTNOTE_ITEM_REGEX = /<li id="footnote-([^"]+)">\n?/g;
+
+/**
+ * Regex to match the link back to the reference, at the end of a note
+ */
+const BACKREF_REGEX =
+	/\s*<a href="#footnote-ref-[^"]+" data-footnote-backref[^>]*>[\s\S]*?<\/a>/g;
+
+/**
+ * Regex to match a footnote reference of marked-footnote
+ */
+const SOURCE_REF_REGEX =
+	/<sup><a id="footnote-ref-([^"]+)" href="#footnote-([^"]+)" data-footnote-ref aria-describedby="footnote-label">\d+<\/a><\/sup>/g;
+
+/**
+ * Regex to match a footnote reference after extraction
+ */
+const REF_REGEX =
+	/<sup class="footnote-ref"><a id="footnote-ref-([^"]+)" href="#footnote-([^"]+)">\d*<\/a><\/sup>/g;
+
+/**
+ * Regex to match an opening or closing tag
+ */
+const TAG_REGEX = /<(\/?)([a-z][a-z0-9]*)\b[^>]*>/g;
+
+/**
+ * Blocks the page can be cut before
+ */
+const BLOCK_TAGS: Set<string> = new Set([
+	"p",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"ul",
+	"ol",
+	"li",
+	"pre",
+	"blockquote",
+	"table",
+	"figure",
+	"hr",
+	"dl",
+	"div",
+]);
+
+/**
+ * Blocks the page is never cut inside
+ */
+const ATOMIC_TAGS: Set<string> = new Set(["table", "pre", "figure", "aside"]);
+
+/**
+ * Pages with notes at their bottom, each a draft render. The notes of
+ * later pages are endnotes
+ */
+const MAX_FOOTNOTE_PAGES = 50;
+
+/**
+ * Room to leave between the notes and the bottom margin, in PDF points
+ */
+const TOLERANCE = 2;
+
+/**
+ * Page marker id prefixes
+ */
+const REF_PREFIX = "fn-ref:";
+const CUT_PREFIX = "fn-cut:";
+const NOTE_PREFIX = "fn-note:";
+const NOTE_END_PREFIX = "fn-note-end:";
+
+/**
+ * Marker id of the empty note, to measure the rule above the notes
+ */
+const EMPTY_NOTE = "";
+
+/**
+ * A footnote and its number
+ */
+interface Footnote {
+	label: string;
+	content: string;
+	number: number;
+}
+
+/**
+ * Resolve the footnotes configuration, with `footnotes: page` as shorthand
+ */
+export function resolveFootnotes(
+	config?: FootnotePlacement | FootnotesConfig,
+): Required<FootnotesConfig> {
+	const options = typeof config === "string" ? { placement: config } : config;
+	return {
+		placement: options?.placement ?? "end",
+		numbering: options?.numbering ?? "document",
+	};
+}
+
+/**
+ * Offsets of the blocks that start a line in the body, outside of tables,
+ * code blocks, figures and placed footnotes
+ */
+function findCuts(html: string): number[] {
+	const start = html.search(/<body\b/);
+	const end = html.lastIndexOf("</body>");
+	if (start === -1 || end === -1) return [];
+
+	const cuts: number[] = [];
+	let depth = 0;
+	for (const match of html.slice(start, end).matchAll(TAG_REGEX)) {
+		const [tag, closing, name = ""] = match;
+		const offset = start + match.index;
+		if (
+			depth === 0 &&
+			!closing &&
+			html[offset - 1] === "\n" &&
+			BLOCK_TAGS.has(name) &&
+			!tag.includes('class="page-footnotes')
+		) {
+			cuts.push(offset);
+		}
+		if (ATOMIC_TAGS.has(name)) depth = Math.max(0, depth + (closing ? -1 : 1));
+	}
+	return cuts;
+}
+
+/**
+ * HTML for a note, as placed at the bottom of a page
+ */
+function renderNote(note: Footnote, withId: boolean = true): string {
+	const id = withId ? ` id="footnote-${note.label}"` : "";
+	return `<div class="page-footnote"${id}><span class="page-footnote-number">${note.number}</span><div class="page-footnote-text">${note.content}</div></div>`;
+}
+
+/**
+ * HTML for the notes of a page: a spacer that pushes them to the bottom,
+ * the notes, and a page break
+ */
+function renderNotes(notes: Footnote[], space: number): string {
+	const spacer =
+		space > 0
+			? `<div class="page-footnotes-space" style="height: ${space.toFixed(2)}px"></div>\n`
+			: "";
+	return `${spacer}<aside class="page-footnotes">${notes.map((note) => renderNote(note)).join("")}</aside>\n`;
+}
+
+/**
+ * Write the numbers of the notes into their references
+ */
+function numberRefs(html: string, notes: Map<string, Footnote>): string {
+	return html.replace(REF_REGEX, (match, id: string, label: string) => {
+		const note = notes.get(label);
+		if (!note) return match;
+		return `<sup class="footnote-ref"><a id="footnote-ref-${id}" href="#footnote-${label}">${note.number}</a></sup>`;
+	});
+}
+
+/**
+ * Take the endnotes out of the HTML, and number the notes in the order of
+ * their first reference, restarting in every chapter (# heading) for
+ * chapter numbering
+ */
+function extractFootnotes(
+	html: string,
+	numbering: FootnoteNumbering,
+): { html: string; notes: Map<string, Footnote> } {
+	const section = FOOTNOTES_SECTION_REGEX.exec(html);
+	const notes = new Map<string, Footnote>();
+	if (!section) return { html, notes };
+
+	// Notes run from their <li> to the next one
+	const list = section[1] ?? "";
+	const items = Array.from(list.matchAll(FOOTNOTE_ITEM_REGEX));
+	const contents = new Map<string, string>();
+	items.forEach((item, index) => {
+		const end = items[index + 1]?.index ?? list.length;
+		const content = list
+			.slice(item.index + item[0].length, end)
+			.replace(/\s*<\/li>\s*$/, "")
+			.replace(BACKREF_REGEX, "");
+		contents.set(item[1] ?? "", content);
+	});
+
+	let number = 0;
+	let chapterStart = 0;
+	const body = html.replace(section[0], "");
+	const withRefs = body.replace(
+		SOURCE_REF_REGEX,
+		(_match, id: string, label: string, offset: number) => {
+			if (!notes.has(label)) {
+				// A chapter starts between the previous note and this one
+				if (
+					numbering === "chapter" &&
+					body.slice(chapterStart, offset).includes("<h1")
+				) {
+					number = 0;
+				}
+				chapterStart = offset;
+				notes.set(label, {
+					label,
+					content: contents.get(label) ?? "",
+					number: ++number,
+				});
+			}
+			return `<sup class="footnote-ref"><a id="footnote-ref-${id}" href="#footnote-${label}"></a></sup>`;
+		},
+	);
+	return { html: numberRefs(withRefs, notes), notes };
+}
+
+/**
+ * Draft HTML: page markers at the first reference of every pending note
+ * and at every cut, and every pending note measured on a page of its own
+ * at the end
+ */
+function buildDraft(html: string, pending: Footnote[]): string {
+	const labels = new Set(pending.map((note) => note.label));
+	const withRefs = html.replace(
+		REF_REGEX,
+		(match, id: string, label: string) =>
+			id === label && labels.has(label)
+				? match.replace("<a ", `${pageMarkerHtml(`${REF_PREFIX}${label}`)}<a `)
+				: match,
+	);
+
+	const cuts = findCuts(withRefs);
+	let draft = withRefs;
+	for (let index = cuts.length - 1; index >= 0; index--) {
+		const offset = cuts[index] ?? 0;
+		const marker = `<div class="footnote-cut">${pageMarkerHtml(`${CUT_PREFIX}${index}`)}</div>\n`;
+		draft = draft.slice(0, offset) + marker + draft.slice(offset);
+	}
+
+	const measure = [{ label: EMPTY_NOTE, content: "", number: 0 }, ...pending]
+		.map((note) => {
+			const content = note.label === EMPTY_NOTE ? "" : renderNote(note, false);
+			return `<div class="footnote-measure"><aside class="page-footnotes">${pageMarkerHtml(`${NOTE_PREFIX}${note.label}`)}${content}</aside><div class="footnote-cut">${pageMarkerHtml(`${NOTE_END_PREFIX}${note.label}`)}</div></div>`;
+		})
+		.join("\n");
+	return draft.replace(/<\/body>/, `${measure}\n</body>`);
+}
+
+/**
+ * Place every footnote at the bottom of the page its first reference
+ * lands on. The render callback renders draft HTML to a PDF. Numbers
+ * restart on every page or chapter, depending on the numbering.
+ */
+export async function layoutPageFootnotes(
+	source: string,
+	render: (html: string) => Promise<Uint8Array>,
+	options: PageFootnotesOptions,
+): Promise<{ content: string; warnings: string[] }> {
+	const warnings: string[] = [];
+	const extracted = extractFootnotes(source, options.numbering);
+	const { notes } = extracted;
+	let html = extracted.html;
+	const placed = new Set<string>();
+	let firstPage = 0;
+
+	const isBefore = (a: PageMarker, b: PageMarker): boolean =>
+		a.pageIndex < b.pageIndex || (a.pageIndex === b.pageIndex && a.y > b.y);
+
+	// Every round places the notes of one page, at least one note
+	let rounds = 0;
+	while (placed.size < notes.size && rounds++ < MAX_FOOTNOTE_PAGES) {
+		const pending = [...notes.values()].filter(
+			(note) => !placed.has(note.label),
+		);
+		const pdfDoc = await PDFDocument.load(
+			await render(buildDraft(html, pending)),
+		);
+		const markers = extractPageMarkers(pdfDoc);
+		const byId = new Map(markers.map((marker) => [marker.id, marker]));
+
+		// Height of a marked range, within a page
+		const measure = (label: string): number => {
+			const top = byId.get(`${NOTE_PREFIX}${label}`);
+			const bottom = byId.get(`${NOTE_END_PREFIX}${label}`);
+			return top && bottom ? top.y - bottom.y : 0;
+		};
+		const rule = measure(EMPTY_NOTE);
+		const height = (ids: string[]): number =>
+			ids.reduce((sum, id) => sum + measure(id) - rule, rule);
+
+		const refs = markers.filter(
+			(marker) =>
+				marker.id.startsWith(REF_PREFIX) && marker.pageIndex >= firstPage,
+		);
+		const page = refs[0]?.pageIndex;
+		if (page === undefined) break;
+
+		const cuts = markers.filter((marker) => marker.id.startsWith(CUT_PREFIX));
+		const labelsBefore = (marker: PageMarker): string[] =>
+			refs
+				.filter((ref) => isBefore(ref, marker))
+				.map((ref) => ref.id.slice(REF_PREFIX.length));
+
+		// Cuts on the page below a reference, bottom-most first
+		const candidates = cuts
+			.filter(
+				(marker) =>
+					marker.pageIndex === page && labelsBefore(marker).length > 0,
+			)
+			.reverse();
+		const fitting = candidates.find(
+			(marker) =>
+				marker.y - options.bottom - height(labelsBefore(marker)) >= TOLERANCE,
+		);
+
+		let cut = fitting ?? candidates.at(-1);
+		if (!fitting) {
+			if (cut) {
+				warnings.push(
+					`Footnotes: the notes of page ${page + 1} don't fit below their references`,
+				);
+			} else {
+				// The block with the reference runs onto the next page
+				cut = cuts.find((marker) => isBefore(refs[0] as PageMarker, marker));
+				warnings.push(
+					`Footnotes: the notes of page ${page + 1} are placed on a later page`,
+				);
+			}
+		}
+
+		const labels = cut
+			? labelsBefore(cut)
+			: refs.map((ref) => ref.id.slice(REF_PREFIX.length));
+		const group = labels
+			.map((label) => notes.get(label))
+			.filter((note): note is Footnote => note !== undefined);
+		if (options.numbering === "page") {
+			group.forEach((note, index) => {
+				note.number = index + 1;
+			});
+		}
+		for (const note of group) placed.add(note.label);
+		html = numberRefs(html, notes);
+
+		const space = cut
+			? Math.max(0, cut.y - options.bottom - height(labels) - TOLERANCE)
+			: 0;
+		// PDF points → CSS pixels
+		const notesHtml = renderNotes(group, ((space / options.scale) * 4) / 3);
+		const offset = cut
+			? findCuts(html)[Number(cut.id.slice(CUT_PREFIX.length))]
+			: undefined;
+		html =
+			offset === undefined
+				? html.replace(/<\/body>/, `${renderNotes(group, 0)}</body>`)
+				: html.slice(0, offset) + notesHtml + html.slice(offset);
+		firstPage = (cut?.pageIndex ?? page) + 1;
+	}
+
+	// Notes whose references didn't show up in the draft, or of pages
+	// after MAX_FOOTNOTE_PAGES
+	const rest = [...notes.values()].filter((note) => !placed.has(note.label));
+	if (rest.length > 0) {
+		const reason =
+			rounds > MAX_FOOTNOTE_PAGES
+				? ` (more than ${MAX_FOOTNOTE_PAGES} pages with notes)`
+				: "";
+		warnings.push(
+			`Footnotes: ${rest.length} note(s) placed at the end of the document${reason}`,
+		);
+		html = html.replace(/<\/body>/, `${renderNotes(rest, 0)}</body>`);
+	}
+
+	return { content: html, warnings };
+}
+
+/**
+ * CSS for page footnotes, and the markers of the draft renders
+ */
+export const footnotesCss = `
+.footnote-ref {
+  position: relative;
+}
+
+.footnote-ref a {
+  text-decoration: none;
+}
+
+.page-footnotes {
+  position: relative;
+  margin: 0;
+  padding: 0;
+  font-size: 0.8em;
+  line-height: 1.4;
+  break-after: page;
+}
+
+.page-footnotes::before {
+  content: "";
+  display: block;
+  width: 30%;
+  border-top: 0.5pt solid currentColor;
+  margin-bottom: 0.5em;
+}
+
+.page-footnote {
+  position: relative;
+  display: flex;
+  gap: 0.5em;
+}
+
+.page-footnote-number {
+  min-width: 1em;
+}
+
+.page-footnote-text p {
+  margin: 0;
+}
+
+.page-footnote-text p + p {
+  margin-top: 0.25em;
+}
+
+.footnote-cut {
+  position: relative;
+  height: 0;
+}
+
+.footnote-measure {
+  break-before: page;
+}
+
+.footnote-measure .page-footnotes {
+  break-after: auto;
+}
+${pageMarkerCss}`;
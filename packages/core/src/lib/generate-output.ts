@@ -1,10 +1,16 @@
 import { resolve } from "node:path";
 import { pathToFileURL } from "node:url";
 import puppeteer, { type Browser } from "puppeteer";
+import {
+	type AccessibilityIssue,
+	checkAccessibility,
+} from "./accessibility.js";
 import { addAcroFormFields } from "./acroform.js";
 import type { Config } from "./config.js";
+import { renderMermaidDiagrams } from "./mermaid.js";
 import { injectPdfMetadata } from "./pdf-metadata.js";
 import { isHttpUrl } from "./util.js";
+import { addWatermark } from "./watermark.js";
 
 export type Output = PdfOutput | HtmlOutput;
 
@@ -20,6 +26,10 @@ export interface HtmlOutput extends BasicOutput {
 
 interface BasicOutput {
 	filename: string | undefined;
+	/** Problems found while rendering, e.g. diagram syntax errors */
+	warnings?: string[];
+	/** Accessibility problems found in the rendered document */
+	accessibility?: AccessibilityIssue[];
 }
 
 /**
@@ -87,6 +97,14 @@ export async function generateOutput(
 	// Wait for network to be idle
 	await page.waitForNetworkIdle();
 
+	// Render Mermaid diagrams to inline SVG (bundled script, no network)
+	const warnings = await renderMermaidDiagrams(page);
+
+	// Check what the PDF tags are made from
+	const accessibility = config.check_accessibility !== false
+		? await checkAccessibility(page)
+		: undefined;
+
 	// Extract select options if fillable mode is enabled
 	// (Select options are not encoded in marker URLs, so we need to extract them from DOM)
 	let selectOptions: Map<string, string[]> | undefined;
@@ -118,9 +136,12 @@ export async function generateOutput(
 		outputFileContent = await page.content();
 	} else {
 		await page.emulateMediaType(config.page_media_type);
+		// Tagged for screen readers, from the structure of the HTML. The
+		// outline is written after rendering (see outline.ts)
 		const pdfOptions = {
+			tagged: true,
 			...config.pdf_options,
-			outline: true,
+			outline: false,
 		};
 		outputFileContent = await page.pdf(pdfOptions);
 	}
@@ -133,6 +154,8 @@ export async function generateOutput(
 			content: outputFileContent as string,
 			headerTemplate: config.pdf_options.headerTemplate,
 			footerTemplate: config.pdf_options.footerTemplate,
+			warnings,
+			accessibility,
 		};
 	}
 
@@ -151,12 +174,23 @@ export async function generateOutput(
 			metadata.title ||
 			metadata.author ||
 			metadata.subject ||
-			metadata.keywords?.length
+			metadata.keywords?.length ||
+			metadata.language
 		) {
 			pdfContent = await injectPdfMetadata(Buffer.from(pdfContent), metadata);
 		}
 	}
 
+	// Draw watermark onto the pages
+	if (config.watermark) {
+		pdfContent = await addWatermark(
+			Buffer.from(pdfContent),
+			typeof config.watermark === "string"
+				? { text: config.watermark }
+				: config.watermark,
+		);
+	}
+
 	// Add AcroForm fields if fillable mode is enabled
 	// The marker-based approach reads field positions from PDF link annotations
 	if (config.fillable) {
@@ -168,5 +202,7 @@ export async function generateOutput(
 	return {
 		filename: config.dest,
 		content: pdfContent,
+		warnings,
+		accessibility,
 	};
 }
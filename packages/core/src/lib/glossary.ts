@@ -0,0 +1,298 @@
+/**
+ * Glossary and acronyms for mdforge.
+ *
+ * Terms and acronyms are defined in the config, or in a YAML file with
+ * `glossary: "@glossary.yaml"`:
+ *
+ *   glossary:
+ *     entries:
+ *       API:
+ *         long: Application Programming Interface
+ *       Idempotent: An operation with the same result when repeated.
+ *
+ * Syntax:
+ *   {{gls:API}} → Application Programming Interface (API) on first use,
+ *   API (linked to the glossary) afterwards
+ *   <!-- glossary --> inserts the list of terms
+ */
+
+import GithubSlugger from "github-slugger";
+import type { MarkedExtension, Token, Tokens } from "marked";
+import YAML from "yaml";
+import { ConfigError } from "./errors.js";
+import { cleanForSlug } from "./slugger.js";
+import { escapeHtml } from "./util.js";
+
+/**
+ * A glossary entry: an acronym with its long form, or a term with a
+ * description, or both
+ */
+export interface GlossaryEntry {
+	/** Long form of an acronym, used on first use */
+	long?: string;
+	/** Description in the glossary */
+	description?: string;
+}
+
+/**
+ * Glossary configuration.
+ *
+ * @example
+ * ```yaml
+ * glossary: "@glossary.yaml"     # entries from a YAML file
+ *
+ * glossary:
+ *   entries:
+ *     API:
+ *       long: Application Programming Interface
+ *       description: How programs talk to each other.
+ *     Idempotent: Same result when repeated.
+ *   drop_unused: true
+ * ```
+ */
+export interface GlossaryConfig {
+	/**
+	 * Entries by term. A string entry is a description. A string instead
+	 * of entries is YAML, as read from a file with "@file.yaml".
+	 */
+	entries?: string | Record<string, string | GlossaryEntry>;
+	/** Leave entries that are never referenced out of the glossary. Default: false */
+	drop_unused?: boolean;
+}
+
+/**
+ * Regex to match a glossary reference: {{gls:term}}
+ */
+const GLS_REGEX = /^\{\{gls:([^{}\n]+)\}\}/;
+
+/**
+ * Regex to match a glossary marker
+ */
+const GLOSSARY_MARKER_REGEX = /^ {0,3}<!--\s*glossary\s*-->[ \t]*(?:\n+|$)/;
+
+/**
+ * Regex to match the start or end marker of the TOC (see toc.ts)
+ */
+const TOC_MARKER_REGEX = /<!-- toc(stop)? -->/;
+
+/**
+ * Regex to match a reference to an undefined term in the HTML
+ */
+const UNDEFINED_REGEX = /<span class="gls gls-undefined" data-term="([^"]*)">/g;
+
+/**
+ * A glossary entry with its term and element id
+ */
+interface ResolvedEntry extends GlossaryEntry {
+	term: string;
+	id: string;
+}
+
+/**
+ * Read the glossary entries from the config. YAML strings are parsed, so
+ * `glossary: "@glossary.yaml"` works as shorthand for the entries.
+ * Throws ConfigError for entries that are not terms with descriptions
+ * or long forms.
+ */
+export function loadGlossary(
+	config: string | GlossaryConfig,
+): Map<string, GlossaryEntry> {
+	const source = typeof config === "string" ? config : config.entries;
+	let entries: unknown = source ?? {};
+	if (typeof source === "string") {
+		try {
+			entries = YAML.parse(source);
+		} catch (error) {
+			throw new ConfigError(`Invalid glossary: ${(error as Error).message}`);
+		}
+	}
+
+	if (
+		entries === null ||
+		typeof entries !== "object" ||
+		Array.isArray(entries)
+	) {
+		throw new ConfigError(
+			'Invalid glossary: expected terms, or a YAML file as "@glossary.yaml"',
+		);
+	}
+
+	const result = new Map<string, GlossaryEntry>();
+	for (const [term, entry] of Object.entries(entries)) {
+		if (typeof entry === "string") {
+			result.set(term, { description: entry });
+		} else if (entry !== null && typeof entry === "object") {
+			const { long, description } = entry as GlossaryEntry;
+			result.set(term, {
+				long: long === undefined ? undefined : String(long),
+				description:
+					description === undefined ? undefined : String(description),
+			});
+		} else {
+			throw new ConfigError(
+				`Invalid glossary entry "${term}": expected a description or long/description`,
+			);
+		}
+	}
+	return result;
+}
+
+/**
+ * Marked extension for {{gls:term}} references and the <!-- glossary -->
+ * marker. Acronyms are spelled out on their first use, in document order.
+ * Without a glossary, references are reported as undefined.
+ */
+export function glossary(
+	config: string | GlossaryConfig = {},
+): MarkedExtension {
+	const entries = loadGlossary(config);
+	const dropUnused = typeof config === "object" && config.drop_unused === true;
+	const slugger = new GithubSlugger();
+	const resolved = new Map<string, ResolvedEntry>(
+		[...entries].map(([term, entry]) => [
+			term,
+			{ ...entry, term, id: `gls-${slugger.slug(cleanForSlug(term))}` },
+		]),
+	);
+	const used = new Set<string>();
+	// The first reference to each term in document order, found before
+	// rendering. TOC entries repeat their headings and don't count, lists
+	// of figures and tables render copies of the caption tokens
+	const firstUses = new Map<string, Token>();
+	let inToc = false;
+	let hasGlossary = false;
+
+	const renderReference = (entry: ResolvedEntry, token: Token): string => {
+		const term = entry.long
+			? `<abbr title="${escapeHtml(entry.long)}">${escapeHtml(entry.term)}</abbr>`
+			: escapeHtml(entry.term);
+
+		// Acronyms are spelled out the first time
+		if (entry.long && firstUses.get(entry.term) === token) {
+			return `<span class="gls gls-first">${escapeHtml(entry.long)} (${term})</span>`;
+		}
+		return hasGlossary
+			? `<a href="#${entry.id}" class="gls">${term}</a>`
+			: `<span class="gls">${term}</span>`;
+	};
+
+	return {
+		extensions: [
+			{
+				name: "glossaryRef",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.indexOf("{{gls:");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = GLS_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "glossaryRef",
+						raw: match[0],
+						term: (match[1] ?? "").trim(),
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const term = token.term as string;
+					const entry = resolved.get(term);
+					if (!entry) {
+						const text = escapeHtml(term);
+						return `<span class="gls gls-undefined" data-term="${text}">${text}</span>`;
+					}
+					return renderReference(entry, token);
+				},
+			},
+			{
+				name: "glossaryMarker",
+				level: "block",
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = GLOSSARY_MARKER_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "glossaryMarker",
+						raw: match[0],
+						// Descriptions may contain inline markdown
+						items: [...resolved.values()].map((entry) => ({
+							entry,
+							description: this.lexer.inlineTokens(entry.description ?? ""),
+						})),
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const collator = new Intl.Collator(undefined, {
+						sensitivity: "base",
+						numeric: true,
+					});
+					const items = (
+						token.items as { entry: ResolvedEntry; description: Token[] }[]
+					)
+						.filter(({ entry }) => !dropUnused || used.has(entry.term))
+						.sort((a, b) => collator.compare(a.entry.term, b.entry.term))
+						.map(({ entry, description }) => {
+							const long = entry.long
+								? `\n<dd class="glossary-long">${escapeHtml(entry.long)}</dd>`
+								: "";
+							const text = entry.description
+								? `\n<dd>${this.parser.parseInline(description)}</dd>`
+								: "";
+							return `<dt id="${entry.id}">${escapeHtml(entry.term)}</dt>${long}${text}`;
+						});
+					return `<dl class="glossary">\n${items.join("\n")}\n</dl>\n`;
+				},
+			},
+		],
+		walkTokens(token: Token): void {
+			if (token.type === "html") {
+				const marker = TOC_MARKER_REGEX.exec(token.text);
+				if (marker) inToc = marker[1] === undefined;
+			}
+			if (token.type === "glossaryMarker") hasGlossary = true;
+			if (token.type === "glossaryRef") {
+				const term = token.term as string;
+				used.add(term);
+				if (!(inToc || firstUses.has(term))) firstUses.set(term, token);
+			}
+		},
+	};
+}
+
+/**
+ * Warnings for {{gls:term}} references to terms that are not in the
+ * glossary, once per term
+ */
+export function glossaryWarnings(html: string): string[] {
+	const terms = new Set(
+		Array.from(html.matchAll(UNDEFINED_REGEX), ([, term]) => term),
+	);
+	return [...terms].map((term) => `Glossary: undefined term "${term}"`);
+}
+
+/**
+ * CSS for glossary references and the glossary list
+ */
+export const glossaryCss = `
+a.gls {
+  color: inherit;
+  text-decoration: none;
+}
+
+.gls abbr[title] {
+  text-decoration: none;
+}
+
+.glossary dt {
+  font-weight: 600;
+}
+
+.glossary dd {
+  margin-left: 1.5em;
+  margin-bottom: 0.5em;
+}
+
+.glossary .glossary-long {
+  font-style: italic;
+  margin-bottom: 0;
+}
+`;
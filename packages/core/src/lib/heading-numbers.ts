@@ -89,7 +89,7 @@ function toAlpha(num: number): string {
 /**
  * Format a number according to the specified format.
  */
-function formatNumber(num: number, format: HeadingNumberFormat): string {
+export function formatNumber(num: number, format: HeadingNumberFormat): string {
 	// biome-ignore lint/nursery/noUnnecessaryConditions: switch on union type is valid
 	switch (format) {
 		case "roman":
@@ -176,7 +176,8 @@ export function headingNumbers(
 				const numberPrefix = numberParts.join(separator);
 				const numberedText = `${numberPrefix}${separator} ${text}`;
 
-				return `<h${depth} id="${id}">${numberedText}</h${depth}>\n`;
+				// data-number is used by @see(...){number} cross-references
+				return `<h${depth} id="${id}" data-number="${numberPrefix}">${numberedText}</h${depth}>\n`;
 			},
 		},
 	};
@@ -1,11 +1,35 @@
 import { promises as fs } from "node:fs";
 import { dirname, isAbsolute, normalize, resolve } from "node:path";
+import { getSourceLines, type SourceLine } from "./source-lines.js";
 
 /**
  * Templates configuration: map of template names to file paths
  */
 export type TemplatesConfig = Record<string, string>;
 
+/**
+ * Options for include processing
+ */
+export interface IncludeOptions {
+	/** Named templates that can be included by name */
+	templates?: TemplatesConfig;
+	/** Path of the file being processed, passed to onInclude as the includer */
+	from?: string;
+	/** Called with the resolved path of every file pulled in by @include */
+	onInclude?: (path: string, from?: string) => void;
+	/** Source lines of the content. Default: its own lines */
+	lines?: SourceLine[];
+}
+
+/**
+ * Markdown with its includes expanded
+ */
+export interface IncludeResult {
+	content: string;
+	/** Where each line of the content comes from */
+	lines: SourceLine[];
+}
+
 /**
  * Regex to match @include directives:
  * - @include ./relative/path.md
@@ -14,7 +38,7 @@ export type TemplatesConfig = Record<string, string>;
  * - @include 'path with spaces/file.md'
  * - @include template-name (if defined in templates config)
  */
-const INCLUDE_REGEX = /^@include\s+(?:"([^"]+)"|'([^']+)'|(\S+))\s*$/gm;
+const INCLUDE_REGEX = /^@include\s+(?:"([^"]+)"|'([^']+)'|(\S+))\s*$/;
 
 /**
  * Normalize a path for cross-platform support.
@@ -62,17 +86,18 @@ async function readFile(filePath: string): Promise<string> {
  *
  * @param content - The markdown content to process
  * @param baseDir - The base directory for resolving relative paths
- * @param templates - Optional templates configuration
+ * @param options - Templates configuration, include tracking and source lines
  * @param depth - Current recursion depth (to prevent infinite loops)
- * @returns The processed content with includes expanded
+ * @returns The processed content with includes expanded, and its source lines
  */
 export async function processIncludes(
 	content: string,
 	baseDir: string,
-	templates?: TemplatesConfig,
+	options: IncludeOptions = {},
 	depth: number = 0,
-): Promise<string> {
+): Promise<IncludeResult> {
 	const MAX_DEPTH = 10;
+	const { templates, from, onInclude } = options;
 
 	if (depth >= MAX_DEPTH) {
 		throw new Error(
@@ -80,14 +105,21 @@ export async function processIncludes(
 		);
 	}
 
-	// Process @include directives
+	const sourceLines = options.lines ?? getSourceLines(content);
+	const output: string[] = [];
+	const lines: SourceLine[] = [];
+
+	// Process @include directives, each on its own line
 	// If the argument matches a template name, use the template path
 	// Otherwise treat it as a file path
-	const includeMatches = [...content.matchAll(INCLUDE_REGEX)];
-	for (const match of includeMatches) {
-		const fullMatch = match[0];
-		const includeArg = match[1] || match[2] || match[3];
-		if (!includeArg) continue;
+	for (const [index, line] of content.split("\n").entries()) {
+		const match = INCLUDE_REGEX.exec(line);
+		const includeArg = match?.[1] || match?.[2] || match?.[3];
+		if (!includeArg) {
+			output.push(line);
+			lines.push(sourceLines[index] ?? { line: index + 1 });
+			continue;
+		}
 
 		// Check if it's a template name first
 		let includePath = includeArg;
@@ -100,17 +132,28 @@ export async function processIncludes(
 
 		const resolvedPath = resolvePath(includePath, includeBaseDir);
 		const includeContent = await readFile(resolvedPath);
+		onInclude?.(resolvedPath, from);
 
 		// Recursively process includes in the included file
-		const processedContent = await processIncludes(
+		const processed = await processIncludes(
 			includeContent,
 			dirname(resolvedPath),
-			templates,
+			{
+				...options,
+				from: resolvedPath,
+				lines: getSourceLines(includeContent, resolvedPath),
+			},
 			depth + 1,
 		);
 
-		content = content.replace(fullMatch, processedContent);
+		// The included file replaces the line, without its final newline
+		const includedLines = processed.content.split("\n");
+		if (includedLines.length > 1 && includedLines.at(-1) === "") {
+			includedLines.pop();
+		}
+		output.push(...includedLines);
+		lines.push(...processed.lines.slice(0, includedLines.length));
 	}
 
-	return content;
+	return { content: output.join("\n"), lines };
 }
@@ -5,10 +5,16 @@ import { markedHighlight } from "marked-highlight";
 import markedLinkifyIt from "marked-linkify-it";
 import { markedSmartypants } from "marked-smartypants";
 import { admonitions } from "./admonitions.js";
+import { captions } from "./captions.js";
 import type { Config } from "./config.js";
 import { formFields } from "./form-fields.js";
+import { glossary } from "./glossary.js";
 import { headingNumbers } from "./heading-numbers.js";
+import { math } from "./math.js";
+import { mermaid } from "./mermaid.js";
+import { sidenotes } from "./sidenotes.js";
 import { gfmHeadingId } from "./slugger.js";
+import { termIndex } from "./term-index.js";
 import { insertToc } from "./toc.js";
 
 /**
@@ -33,7 +39,17 @@ const getMarked = (config: Config): Marked => {
 		highlightExtension,
 		headingExtension,
 		admonitions(),
+		// Tokenizers added later are tried first: !!! margin is not a note
+		sidenotes(),
 		formFields({ fillable: config.fillable }),
+		mermaid(),
+		// Math is on unless disabled with `math: false`
+		...(config.math === false
+			? []
+			: [math(config.math === true ? {} : config.math)]),
+		captions(config.captions, config),
+		termIndex(),
+		glossary(config.glossary),
 		markedSmartypants(),
 		markedFootnote(),
 		markedLinkifyIt(),
@@ -48,14 +64,19 @@ const getMarked = (config: Config): Marked => {
 
 /**
  * Generates a HTML document from a markdown string.
+ * The optional cover HTML is placed before the document content.
  */
-export const getHtml = (md: string, config: Config): string => {
+export const getHtml = (
+	md: string,
+	config: Config,
+	cover: string = "",
+): string => {
 	const mdWithToc = insertToc(md, config.toc_options);
 	return `<!DOCTYPE html>
-<html>
+<html${config.metadata?.language ? ` lang="${config.metadata.language.replaceAll('"', "")}"` : ""}>
 	<head><title>${config.document_title}</title><meta charset="utf-8"></head>
 	<body class="${config.body_class.join(" ")}">
-		${getMarked(config).parse(mdWithToc)}
+		${cover}${getMarked(config).parse(mdWithToc)}
 	</body>
 </html>
 `;
@@ -0,0 +1,220 @@
+/**
+ * Math typesetting for mdforge.
+ *
+ * Renders TeX to KaTeX HTML while converting the markdown, so no script
+ * runs in the browser. The KaTeX fonts are embedded in the stylesheet.
+ *
+ * Syntax:
+ *   Inline: $E = mc^2$
+ *   Display: $$ E = mc^2 $$ {#eq:energy}
+ *   Display: ```math {#eq:energy}
+ *   Reference: @see(eq:energy) → (1)
+ */
+
+import { promises as fs } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, resolve } from "node:path";
+import katex from "katex";
+import type { MarkedExtension, Token, Tokens } from "marked";
+
+const require: NodeRequire = createRequire(import.meta.url);
+
+/**
+ * Equation numbering modes
+ */
+export const mathNumberings = ["labeled", "all"] as const;
+export type MathNumbering = (typeof mathNumberings)[number];
+
+/**
+ * Math configuration.
+ *
+ * @example
+ * ```yaml
+ * math:
+ *   numbering: all     # labeled (default): only equations with {#eq:label}
+ * ```
+ */
+export interface MathConfig {
+	/** Which display equations get a number. Default: "labeled" */
+	numbering?: MathNumbering;
+}
+
+/**
+ * Regex to match display math: $$ ... $$ with an optional {#eq:label}
+ */
+const DISPLAY_REGEX =
+	/^\$\$([\s\S]+?)\$\$(?:[ \t]*\{#(eq:[\w.:-]+)\})?[ \t]*(?:\n+|$)/;
+
+/**
+ * Regex to match inline math: $...$ without spaces inside the dollars,
+ * so amounts like "$5 and $10" stay text
+ */
+const INLINE_REGEX = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+
+/**
+ * Regex to match equation references: @see(eq:label)
+ */
+const EQREF_REGEX = /^@see\((eq:[\w.:-]+)\)/;
+
+/**
+ * Regex to match a label in a ```math info string: {#eq:label}
+ */
+const INFO_LABEL_REGEX = /\{#(eq:[\w.:-]+)\}/;
+
+interface DisplayMathToken extends Tokens.Generic {
+	type: "displayMath";
+	text: string;
+	label?: string;
+	number?: number;
+}
+
+/**
+ * Render TeX to KaTeX HTML. Errors are rendered in red instead of thrown.
+ */
+function renderTex(tex: string, displayMode: boolean): string {
+	return katex.renderToString(tex.trim(), {
+		displayMode,
+		throwOnError: false,
+		output: "html",
+	});
+}
+
+/**
+ * Marked extension for inline and display math with numbered equations.
+ * Equations are numbered before rendering, so references can point ahead.
+ */
+export function math(config: MathConfig = {}): MarkedExtension {
+	const numbering = config.numbering ?? "labeled";
+	const numbers = new Map<string, number>();
+	let count = 0;
+
+	const renderDisplay = (token: DisplayMathToken): string => {
+		const id = token.label ? ` id="${token.label}"` : "";
+		const number =
+			token.number === undefined
+				? ""
+				: `<span class="equation-number">(${token.number})</span>`;
+		return `<div class="equation"${id}>${renderTex(token.text, true)}${number}</div>\n`;
+	};
+
+	return {
+		extensions: [
+			{
+				name: "displayMath",
+				level: "block",
+				start(src: string): number | undefined {
+					const index = src.indexOf("$$");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): DisplayMathToken | undefined {
+					const match = DISPLAY_REGEX.exec(src);
+					if (!match) return;
+					return {
+						type: "displayMath",
+						raw: match[0],
+						text: match[1] ?? "",
+						label: match[2],
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					return renderDisplay(token as DisplayMathToken);
+				},
+			},
+			{
+				name: "inlineMath",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.indexOf("$");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = INLINE_REGEX.exec(src);
+					if (!match) return;
+					return { type: "inlineMath", raw: match[0], text: match[1] ?? "" };
+				},
+				renderer(token: Tokens.Generic): string {
+					return renderTex(token.text as string, false);
+				},
+			},
+			{
+				name: "equationRef",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.indexOf("@see(eq:");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = EQREF_REGEX.exec(src);
+					if (!match) return;
+					return { type: "equationRef", raw: match[0], label: match[1] };
+				},
+				renderer(token: Tokens.Generic): string {
+					const label = token.label as string;
+					const number = numbers.get(label);
+					return `<a href="#${label}" class="equation-ref">(${number ?? "??"})</a>`;
+				},
+			},
+		],
+		walkTokens(token: Token): void {
+			// ```math blocks are display equations too
+			if (token.type === "code" && /^math(\s|$)/.test(token.lang ?? "")) {
+				const label = INFO_LABEL_REGEX.exec(token.lang ?? "")?.[1];
+				Object.assign(token, {
+					type: "displayMath",
+					text: token.text,
+					label,
+				});
+			}
+
+			if (token.type !== "displayMath") return;
+			const equation = token as DisplayMathToken;
+			if (equation.label || numbering === "all") {
+				equation.number = ++count;
+				if (equation.label) numbers.set(equation.label, equation.number);
+			}
+		},
+	};
+}
+
+/**
+ * KaTeX stylesheet with the fonts embedded as data URIs (cached)
+ */
+let katexCss: string | undefined;
+
+/**
+ * Get the KaTeX stylesheet with its woff2 fonts embedded, so math renders
+ * without network access. Only needed when the document contains math.
+ */
+export async function getKatexCss(): Promise<string> {
+	if (katexCss) return katexCss;
+
+	const distDir = dirname(require.resolve("katex/dist/katex.min.css"));
+	const css = await fs.readFile(resolve(distDir, "katex.min.css"), "utf-8");
+
+	// Keep only the woff2 source of each font, as a data URI
+	const fonts = new Map<string, string>();
+	for (const [, file] of css.matchAll(/url\((fonts\/[^)]+\.woff2)\)/g)) {
+		if (!file || fonts.has(file)) continue;
+		const data = await fs.readFile(resolve(distDir, file));
+		fonts.set(file, data.toString("base64"));
+	}
+
+	katexCss = `${css.replace(
+		/src:url\((fonts\/[^)]+\.woff2)\) format\("woff2"\)[^;}]*/g,
+		(_, file: string) =>
+			`src:url(data:font/woff2;base64,${fonts.get(file)}) format("woff2")`,
+	)}
+/* Numbered display equations */
+.equation {
+  position: relative;
+}
+
+.equation .equation-number {
+  position: absolute;
+  right: 0;
+  top: 50%;
+  transform: translateY(-50%);
+}
+`;
+	return katexCss;
+}
@@ -0,0 +1,174 @@
+/**
+ * Mermaid diagrams for mdforge.
+ *
+ * ```mermaid code blocks become <pre class="mermaid"> elements, which are
+ * rendered to inline SVG in the Puppeteer page with the bundled Mermaid
+ * script, so no network is needed. Colors and fonts are read from the
+ * theme's CSS variables, so diagrams follow the `theme` and `fonts` config.
+ */
+
+import { createRequire } from "node:module";
+import type { MarkedExtension, Tokens } from "marked";
+import type { Mermaid } from "mermaid";
+import type { Page } from "puppeteer";
+import { escapeHtml } from "./util.js";
+
+const require: NodeRequire = createRequire(import.meta.url);
+
+/**
+ * Regex to match an opening or closing code fence
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*(\S*)/;
+
+/**
+ * Add the line number (and file name, when given) to the info string of
+ * ```mermaid blocks, e.g. ```mermaid line=12, so diagram errors can point
+ * to the source.
+ */
+export function addMermaidLineNumbers(md: string, file?: string): string {
+	const fileOption = file ? ` file=${encodeURIComponent(file)}` : "";
+	const lines = md.split("\n");
+	let openFence: string | undefined;
+
+	for (const [index, line] of lines.entries()) {
+		const match = FENCE_REGEX.exec(line);
+		if (!match?.[1]) continue;
+
+		if (openFence) {
+			// Closing fence: same character, at least as long, no info string
+			if (
+				match[1][0] === openFence[0] &&
+				match[1].length >= openFence.length &&
+				!match[2]
+			) {
+				openFence = undefined;
+			}
+			continue;
+		}
+
+		openFence = match[1];
+		if (match[2] === "mermaid") {
+			lines[index] = `${line} line=${index + 1}${fileOption}`;
+		}
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Marked extension that outputs ```mermaid blocks as <pre class="mermaid">
+ */
+export function mermaid(): MarkedExtension {
+	return {
+		renderer: {
+			code({ text, lang, escaped }: Tokens.Code): string | false {
+				const [language, ...options] = (lang ?? "").split(/\s+/);
+				if (language !== "mermaid") return false;
+
+				// line=12 file=chapter.md → data-line="12" data-file="chapter.md"
+				const attrs = options
+					.map((option) => /^(line|file)=(\S+)$/.exec(option))
+					.map((match) =>
+						match
+							? ` data-${match[1]}="${escapeHtml(decodeURIComponent(match[2] ?? ""))}"`
+							: "",
+					)
+					.join("");
+				return `<pre class="mermaid"${attrs}>${escaped ? text : escapeHtml(text)}</pre>\n`;
+			},
+		},
+	};
+}
+
+/**
+ * Render all Mermaid diagrams in a page to inline SVG.
+ * Diagrams with syntax errors are kept as source and returned as warnings.
+ */
+export async function renderMermaidDiagrams(page: Page): Promise<string[]> {
+	if (!(await page.$("pre.mermaid"))) return [];
+
+	await page.addScriptTag({
+		path: require.resolve("mermaid/dist/mermaid.min.js"),
+	});
+
+	const errors = await page.evaluate(async () => {
+		const renderer = (window as unknown as { mermaid: Mermaid }).mermaid;
+
+		// Text is measured for the layout, so fonts must be loaded first
+		await document.fonts.ready;
+
+		const style = getComputedStyle(document.documentElement);
+		const cssVar = (name: string, fallback: string): string =>
+			style.getPropertyValue(name).trim() || fallback;
+		const fontFamily = getComputedStyle(document.body).fontFamily;
+
+		renderer.initialize({
+			startOnLoad: false,
+			securityLevel: "strict",
+			suppressErrorRendering: true,
+			theme: "base",
+			fontFamily,
+			themeVariables: {
+				fontFamily,
+				background: cssVar("--color-background", "#ffffff"),
+				primaryColor: cssVar(
+					"--color-primary-light",
+					cssVar("--color-code-bg", "#f7f7f7"),
+				),
+				primaryBorderColor: cssVar("--color-primary", "#42b983"),
+				primaryTextColor: cssVar("--color-text", "#333333"),
+				secondaryColor: cssVar("--color-code-bg", "#f7f7f7"),
+				tertiaryColor: cssVar("--color-background", "#ffffff"),
+				lineColor: cssVar("--color-text-muted", "#666666"),
+			},
+		});
+
+		const failed: Array<{ line?: string; file?: string; message: string }> = [];
+		const diagrams = Array.from(
+			document.querySelectorAll<HTMLElement>("pre.mermaid"),
+		);
+
+		for (const [index, diagram] of diagrams.entries()) {
+			try {
+				const { svg } = await renderer.render(
+					`mermaid-${index}`,
+					diagram.textContent,
+				);
+				const figure = document.createElement("div");
+				figure.className = "mermaid-diagram";
+				figure.innerHTML = svg;
+				diagram.replaceWith(figure);
+			} catch (error) {
+				diagram.classList.add("mermaid-error");
+				failed.push({
+					line: diagram.dataset.line,
+					file: diagram.dataset.file,
+					message: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		return failed;
+	});
+
+	return errors.map(
+		({ line, file, message }) =>
+			`Mermaid diagram${line ? ` on line ${line}` : ""}${file ? ` of ${file}` : ""}: ${message}`,
+	);
+}
+
+/**
+ * CSS for rendered diagrams
+ */
+export const mermaidCss = `
+.mermaid-diagram {
+  margin: 1em 0;
+  text-align: center;
+  break-inside: avoid;
+}
+
+.mermaid-diagram svg {
+  max-width: 100%;
+  height: auto;
+}
+`;
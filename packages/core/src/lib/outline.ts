@@ -0,0 +1,320 @@
+/**
+ * PDF outline (bookmarks) for mdforge.
+ *
+ * Instead of Chrome's outline, the bookmarks are written after rendering,
+ * from the headings of the HTML: deep levels can be left out, heading
+ * numbers dropped and levels closed, and there are bookmarks for the
+ * cover, figures, tables and anchors. Bookmarks point to the named
+ * destinations of the headings (see destinations.ts).
+ */
+
+import {
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+	type PDFRef,
+} from "@folknor/pdf-lib";
+import { destinationName, type NamedDestination } from "./destinations.js";
+
+/**
+ * Bookmarks that can be left out
+ */
+export const outlineExcludes = ["cover", "toc"] as const;
+export type OutlineExclude = (typeof outlineExcludes)[number];
+
+/**
+ * An extra bookmark: a title and the id of a heading, figure or @anchor
+ */
+export interface OutlineBookmark {
+	title: string;
+	target: string;
+}
+
+/**
+ * PDF outline configuration.
+ *
+ * @example
+ * ```yaml
+ * outline:
+ *   max_depth: 3             # h1-h3
+ *   heading_numbers: false   # "Installation" instead of "2.1. Installation"
+ *   open_levels: 1           # only the top level is expanded
+ *   exclude: [cover, toc]
+ *   figures: true            # a "Figures" bookmark, or its title
+ *   extra:
+ *     - title: Appendix A
+ *       target: appendix-a
+ * ```
+ */
+export interface OutlineConfig {
+	/** Deepest heading level with a bookmark (1-6). Default: toc_options.maxdepth */
+	max_depth?: number;
+	/** Show heading numbers in the titles. Default: true */
+	heading_numbers?: boolean;
+	/** Outline levels that are expanded at first, 0 for none. Default: all */
+	open_levels?: number;
+	/**
+	 * Leave out the cover bookmark, and the headings of the TOC and the
+	 * lists of figures and tables. Default: none
+	 */
+	exclude?: OutlineExclude[];
+	/** A bookmark for the figures, with one for each figure. A string sets its title */
+	figures?: boolean | string;
+	/** A bookmark for the tables, with one for each table. A string sets its title */
+	tables?: boolean | string;
+	/** More bookmarks, at the end of the outline */
+	extra?: OutlineBookmark[];
+}
+
+/**
+ * A bookmark: a named destination, or a page index
+ */
+export interface OutlineEntry {
+	title: string;
+	target: string | number;
+	children: OutlineEntry[];
+}
+
+/**
+ * Regex to match a heading: level, attributes, content
+ */
+const HEADING_REGEX = /<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/g;
+
+/**
+ * Regex to match a figure or table with a caption: kind, id, caption
+ */
+const FIGURE_REGEX =
+	/<figure class="(figure|table-figure)" id="([^"]+)">(?:(?!<\/figure>)[\s\S])*?<figcaption>([\s\S]*?)<\/figcaption>/g;
+
+/**
+ * Regex to match the start of a TOC or a list of figures or tables, after
+ * their heading
+ */
+const TOC_REGEX = /^\s*(?:<!-- toc -->|<div class="list-of-)/;
+
+/**
+ * Named and numeric HTML entities that titles may contain
+ */
+const ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+};
+
+/**
+ * Text of an HTML fragment, for a bookmark title or a running heading
+ */
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<math[\s\S]*?<\/math>/g, "")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+			if (name.startsWith("#")) {
+				const code =
+					name[1] === "x" || name[1] === "X"
+						? Number.parseInt(name.slice(2), 16)
+						: Number(name.slice(1));
+				return String.fromCodePoint(code);
+			}
+			return ENTITIES[name.toLowerCase()] ?? entity;
+		})
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Get an attribute value from the attributes of a tag
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+	return new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+/**
+ * Nest entries by level: each entry is a child of the last entry with a
+ * lower level
+ */
+function nestEntries(
+	entries: Array<{ level: number; entry: OutlineEntry }>,
+): OutlineEntry[] {
+	const root: OutlineEntry[] = [];
+	const stack: Array<{ level: number; entry: OutlineEntry }> = [];
+
+	for (const item of entries) {
+		while ((stack.at(-1)?.level ?? 0) >= item.level) stack.pop();
+		(stack.at(-1)?.entry.children ?? root).push(item.entry);
+		stack.push(item);
+	}
+
+	return root;
+}
+
+/**
+ * Get the bookmarks of a document from its HTML
+ */
+export function getOutlineEntries(
+	html: string,
+	config: OutlineConfig = {},
+): OutlineEntry[] {
+	const maxDepth = config.max_depth ?? 6;
+	const exclude = config.exclude ?? [];
+	const entries: OutlineEntry[] = [];
+
+	// The cover is the first page
+	const coverTitle = /<p class="cover-title">([\s\S]*?)<\/p>/.exec(html)?.[1];
+	if (coverTitle !== undefined && !exclude.includes("cover")) {
+		entries.push({ title: htmlToText(coverTitle), target: 0, children: [] });
+	}
+
+	const headings: Array<{ level: number; entry: OutlineEntry }> = [];
+	for (const match of html.matchAll(HEADING_REGEX)) {
+		const [heading, level = "", attributes = "", content = ""] = match;
+		const id = getAttribute(attributes, "id");
+		if (!id || Number(level) > maxDepth) continue;
+		// Visually hidden headings, e.g. of the footnotes
+		if (getAttribute(attributes, "class")?.split(" ").includes("sr-only")) {
+			continue;
+		}
+		if (
+			exclude.includes("toc") &&
+			TOC_REGEX.test(html.slice(match.index + heading.length))
+		) {
+			continue;
+		}
+
+		let title = htmlToText(content);
+		const number = getAttribute(attributes, "data-number");
+		if (number && config.heading_numbers === false) {
+			// "2.1. Installation": the number, separator and space
+			title = title.slice(number.length).replace(/^\S*\s+/, "");
+		}
+		headings.push({
+			level: Number(level),
+			entry: { title, target: id, children: [] },
+		});
+	}
+	entries.push(...nestEntries(headings));
+
+	// Figures and tables, each under a bookmark of their own
+	const kinds = [
+		{ kind: "figure", option: config.figures, title: "Figures" },
+		{ kind: "table-figure", option: config.tables, title: "Tables" },
+	];
+	const figures = Array.from(html.matchAll(FIGURE_REGEX));
+	for (const { kind, option, title } of kinds) {
+		const children = figures
+			.filter((match) => match[1] === kind)
+			.map((match) => ({
+				title: htmlToText(match[3] ?? ""),
+				target: match[2] ?? "",
+				children: [],
+			}));
+		if (!option || children.length === 0) continue;
+		entries.push({
+			title: typeof option === "string" ? option : title,
+			target: children[0]?.target ?? "",
+			children,
+		});
+	}
+
+	for (const { title, target } of config.extra ?? []) {
+		entries.push({ title, target: target.replace(/^#/, ""), children: [] });
+	}
+
+	return entries;
+}
+
+/**
+ * Write the bookmarks into a PDF, replacing its outline. Bookmarks whose
+ * named destination is missing are left out, with a warning.
+ */
+export async function addOutline(
+	pdfBuffer: Buffer,
+	entries: OutlineEntry[],
+	options: { openLevels?: number; destinations: NamedDestination[] },
+): Promise<{ content: Buffer; warnings: string[] }> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const context = pdfDoc.context;
+	const pages = pdfDoc.getPages();
+	const names = new Set(options.destinations.map((dest) => dest.name));
+	const openLevels = options.openLevels ?? 6;
+	const warnings: string[] = [];
+
+	// Write the items of one level, returns the number of visible items
+	const writeItems = (
+		items: OutlineEntry[],
+		parent: PDFRef,
+		level: number,
+	): { first?: PDFRef; last?: PDFRef; count: number } => {
+		const valid = items.filter((item) => {
+			const found =
+				typeof item.target === "number"
+					? item.target < pages.length
+					: names.has(item.target);
+			if (!found) {
+				warnings.push(
+					`Outline: no heading, figure or anchor "${item.target}" for bookmark "${item.title}"`,
+				);
+			}
+			return found;
+		});
+		const refs = valid.map(() => context.nextRef());
+		let count = 0;
+
+		for (const [index, item] of valid.entries()) {
+			const ref = refs[index] as PDFRef;
+			const dest =
+				typeof item.target === "number"
+					? context.obj([pages[item.target]?.ref ?? null, "Fit"])
+					: destinationName(item.target);
+			const dict = context.obj({
+				Title: PDFHexString.fromText(item.title),
+				Parent: parent,
+				Dest: dest,
+			});
+			const previous = refs[index - 1];
+			const next = refs[index + 1];
+			if (previous) dict.set(PDFName.of("Prev"), previous);
+			if (next) dict.set(PDFName.of("Next"), next);
+
+			const children = writeItems(item.children, ref, level + 1);
+			if (children.first && children.last) {
+				// Closed items have a negative count
+				const open = level < openLevels;
+				dict.set(PDFName.of("First"), children.first);
+				dict.set(PDFName.of("Last"), children.last);
+				dict.set(
+					PDFName.of("Count"),
+					context.obj(open ? children.count : -children.count),
+				);
+				if (open) count += children.count;
+			}
+			count += 1;
+			context.assign(ref, dict);
+		}
+
+		return { first: refs[0], last: refs.at(-1), count };
+	};
+
+	const outlinesRef = context.nextRef();
+	const outline = writeItems(entries, outlinesRef, 0);
+	if (outline.first && outline.last) {
+		context.assign(
+			outlinesRef,
+			context.obj({
+				Type: "Outlines",
+				First: outline.first,
+				Last: outline.last,
+				Count: outline.count,
+			}),
+		);
+		pdfDoc.catalog.set(PDFName.of("Outlines"), outlinesRef);
+	} else {
+		pdfDoc.catalog.delete(PDFName.of("Outlines"));
+	}
+
+	const modifiedPdf = await pdfDoc.save();
+	return { content: Buffer.from(modifiedPdf), warnings };
+}
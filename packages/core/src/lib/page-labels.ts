@@ -0,0 +1,413 @@
+/**
+ * Page number zones for mdforge.
+ *
+ * A document can switch page number format, e.g. roman for the preface
+ * and TOC, arabic from the first chapter:
+ *
+ *   <!-- page-numbers: roman -->
+ *   <!-- page-numbers: arabic restart -->
+ *
+ * Each zone becomes a CSS named page, so headers/footers show the zone's
+ * format, and starts on a new page. The same zones are written to the PDF
+ * as /PageLabels, so viewers show "iv" or "12" instead of the page index.
+ * Puppeteer header/footer templates only count in arabic from 1, so their
+ * page numbers are drawn over the pages instead.
+ */
+
+import { type PDFDict, PDFDocument, PDFName } from "@folknor/pdf-lib";
+import type { PageNumberFormat, PageNumbersConfig } from "./config.js";
+import {
+	extractPageMarkers,
+	type PageMarker,
+	pageMarkerCss,
+	pageMarkerHtml,
+} from "./page-markers.js";
+import { formatSourceLine, type SourceLine } from "./source-lines.js";
+
+/**
+ * Page number formats that can be used in zone markers
+ */
+const pageNumberFormats: readonly PageNumberFormat[] = [
+	"arabic",
+	"roman",
+	"roman-upper",
+	"alpha",
+	"alpha-upper",
+];
+
+/**
+ * Regex to match <!-- page-numbers: format [restart] --> on its own line
+ */
+const ZONE_REGEX =
+	/^<!--\s*page-numbers:\s*([^\s>]+)(\s+restart)?\s*-->[ \t]*$/gm;
+
+/**
+ * Regex to match an opening or closing code fence
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * PDF page label styles (ISO 32000 12.4.2)
+ */
+const LABEL_STYLES: Record<PageNumberFormat, string> = {
+	arabic: "D",
+	roman: "r",
+	"roman-upper": "R",
+	alpha: "a",
+	"alpha-upper": "A",
+};
+
+/**
+ * CSS for page number zones, the page marker is placed at the top of the zone
+ */
+export const pageNumberZonesCss = `
+.page-zone {
+  position: relative;
+}
+${pageMarkerCss}`;
+
+/**
+ * A range of pages sharing one page number format
+ */
+export interface PageNumberZone {
+	/** CSS page name, also the page marker id. Undefined for the first zone */
+	name?: string;
+	format: PageNumberFormat;
+	/** Restart numbering at `start` instead of continuing the previous zone */
+	restart: boolean;
+	/** Number of the first page when restarting */
+	start: number;
+}
+
+/**
+ * Result of processing page number zone markers
+ */
+export interface PageNumberZonesResult {
+	content: string;
+	/** A single zone from page_numbers when the document has no markers */
+	zones: PageNumberZone[];
+	warnings: string[];
+}
+
+/**
+ * Find the zone markers, skipping fenced code blocks
+ */
+function findZoneMarkers(content: string): RegExpExecArray[] {
+	// Offsets of the lines in code blocks
+	const codeLines = new Set<number>();
+	let openFence: string | undefined;
+	let offset = 0;
+	for (const line of content.split("\n")) {
+		const fence = FENCE_REGEX.exec(line)?.[1];
+		if (fence) {
+			if (!openFence) openFence = fence;
+			else if (fence[0] === openFence[0] && fence.length >= openFence.length) {
+				openFence = undefined;
+			}
+		} else if (openFence) {
+			codeLines.add(offset);
+		}
+		offset += line.length + 1;
+	}
+
+	return Array.from(content.matchAll(ZONE_REGEX)).filter(
+		(match) => !codeLines.has(match.index),
+	);
+}
+
+/**
+ * Split markdown at page number zone markers.
+ * Content before the first marker uses the page_numbers config. Every
+ * following zone is wrapped in a <section> with its own named page and
+ * starts with a page marker, so its first page can be found in the PDF.
+ * Warnings name the line of the marker in its source (see formatSourceLine).
+ */
+export function processPageNumberZones(
+	content: string,
+	pageNumbers: PageNumbersConfig = {},
+	lines?: SourceLine[],
+): PageNumberZonesResult {
+	const warnings: string[] = [];
+	const matches = findZoneMarkers(content);
+	const defaultZone: PageNumberZone = {
+		format: pageNumbers.format ?? "arabic",
+		restart: true,
+		start: pageNumbers.start ?? 1,
+	};
+
+	if (matches.length === 0) {
+		return { content, zones: [defaultZone], warnings };
+	}
+
+	const zones: PageNumberZone[] = [];
+	const parts: string[] = [];
+
+	// Content before the first marker, skipped when empty so the first
+	// zone starts on the first page
+	const first = content.slice(0, matches[0]?.index).trim();
+	if (first) {
+		zones.push(defaultZone);
+		parts.push(first);
+	}
+
+	for (const [index, match] of matches.entries()) {
+		const [marker, format = "", restart] = match;
+		const line = formatSourceLine(
+			lines,
+			content.slice(0, match.index).split("\n").length - 1,
+		);
+		const end = matches[index + 1]?.index ?? content.length;
+		const zoneContent = content.slice(match.index + marker.length, end).trim();
+
+		let zoneFormat = format as PageNumberFormat;
+		if (!pageNumberFormats.includes(zoneFormat)) {
+			warnings.push(
+				`Page numbers: unknown format "${format}" on ${line}. Use: ${pageNumberFormats.join(", ")}`,
+			);
+			zoneFormat = zones.at(-1)?.format ?? "arabic";
+		}
+
+		const name = `page-zone-${index + 1}`;
+		zones.push({
+			name,
+			format: zoneFormat,
+			// The first zone of the document always starts at page_numbers.start
+			restart: restart !== undefined || zones.length === 0,
+			start: zones.length === 0 ? defaultZone.start : 1,
+		});
+		parts.push(
+			`<section class="page-zone" style="page: ${name}">\n\n${pageMarkerHtml(name)}\n\n${zoneContent}\n\n</section>`,
+		);
+	}
+
+	return { content: `${parts.join("\n\n")}\n`, zones, warnings };
+}
+
+/**
+ * Where a zone starts in the PDF, and the number of its first page
+ */
+interface ZoneStart {
+	pageIndex: number;
+	number: number;
+	format: PageNumberFormat;
+	/** CSS page name, undefined for the first zone */
+	name?: string;
+}
+
+/**
+ * Find the first page of each zone: after the cover page (if any) for the
+ * first zone, at their page marker for the others.
+ */
+function getZoneStarts(
+	markers: PageMarker[],
+	zones: PageNumberZone[],
+	firstPage: number,
+): ZoneStart[] {
+	const markerPages = new Map(
+		markers.map((marker) => [marker.id, marker.pageIndex]),
+	);
+	const starts: ZoneStart[] = [];
+
+	for (const zone of zones) {
+		const previous = starts.at(-1);
+		const pageIndex = zone.name ? markerPages.get(zone.name) : firstPage;
+		// Zone without content on its own page, e.g. at the end of the document
+		if (pageIndex === undefined || pageIndex <= (previous?.pageIndex ?? -1)) {
+			continue;
+		}
+
+		const number =
+			zone.restart || !previous
+				? zone.start
+				: previous.number + pageIndex - previous.pageIndex;
+		starts.push({ pageIndex, number, format: zone.format, name: zone.name });
+	}
+
+	return starts;
+}
+
+/**
+ * Format a page number like the CSS counter styles used in headers/footers
+ */
+function formatPageNumber(number: number, format: PageNumberFormat): string {
+	if (format === "arabic" || number < 1) return String(number);
+
+	if (format === "roman" || format === "roman-upper") {
+		const numerals: Array<[number, string]> = [
+			[1000, "M"],
+			[900, "CM"],
+			[500, "D"],
+			[400, "CD"],
+			[100, "C"],
+			[90, "XC"],
+			[50, "L"],
+			[40, "XL"],
+			[10, "X"],
+			[9, "IX"],
+			[5, "V"],
+			[4, "IV"],
+			[1, "I"],
+		];
+		let rest = number;
+		let roman = "";
+		for (const [value, numeral] of numerals) {
+			for (; rest >= value; rest -= value) roman += numeral;
+		}
+		return format === "roman" ? roman.toLowerCase() : roman;
+	}
+
+	// a, b, ..., z, aa, ab, ...
+	let rest = number;
+	let alpha = "";
+	while (rest > 0) {
+		rest--;
+		alpha = String.fromCharCode(97 + (rest % 26)) + alpha;
+		rest = Math.floor(rest / 26);
+	}
+	return format === "alpha" ? alpha : alpha.toUpperCase();
+}
+
+/**
+ * The number of a page, the value of the CSS page counter
+ */
+export interface PageNumber {
+	number: number;
+	format: PageNumberFormat;
+	/** CSS page name of the zone, undefined for the first zone */
+	zone?: string;
+}
+
+/**
+ * Get the number, format and zone of each page of a PDF from the page
+ * markers of its zones. Pages before the first zone (the cover) have none.
+ */
+export function getPageNumbers(
+	markers: PageMarker[],
+	pageCount: number,
+	zones: PageNumberZone[],
+	options: { cover?: boolean },
+): Array<PageNumber | undefined> {
+	const starts = getZoneStarts(markers, zones, options.cover ? 1 : 0);
+	const numbers: Array<PageNumber | undefined> = [];
+
+	for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+		const start = starts.findLast((zone) => zone.pageIndex <= pageIndex);
+		numbers.push(
+			start && {
+				number: start.number + pageIndex - start.pageIndex,
+				format: start.format,
+				zone: start.name,
+			},
+		);
+	}
+
+	return numbers;
+}
+
+/**
+ * Get the page number shown on each page of a PDF, e.g. "iv" or "12",
+ * from the page markers of its zones. Pages before the first zone (the
+ * cover) get an empty label.
+ */
+export function getPageLabels(
+	markers: PageMarker[],
+	pageCount: number,
+	zones: PageNumberZone[],
+	options: { cover?: boolean } = {},
+): string[] {
+	return getPageNumbers(markers, pageCount, zones, options).map((page) =>
+		page ? formatPageNumber(page.number, page.format) : "",
+	);
+}
+
+/**
+ * The {page} and {pages} values of a header/footer on one page
+ */
+export interface PageCounters {
+	page: string;
+	pages: string;
+}
+
+/**
+ * Get the {page} and {pages} values of each page of a PDF, formatted like
+ * the CSS counters of headers/footers: {pages} is the page count in the
+ * format of the page.
+ */
+export async function getPageCounters(
+	pdfBuffer: Buffer,
+	zones: PageNumberZone[],
+	options: { cover?: boolean } = {},
+): Promise<PageCounters[]> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const pageCount = pdfDoc.getPageCount();
+	return getPageNumbers(
+		extractPageMarkers(pdfDoc),
+		pageCount,
+		zones,
+		options,
+	).map((page) => ({
+		page: page ? formatPageNumber(page.number, page.format) : "",
+		pages: page ? formatPageNumber(pageCount, page.format) : "",
+	}));
+}
+
+/**
+ * Draw the pages of an overlay PDF over the pages of a PDF, e.g. page
+ * numbers rendered separately. Both need the same page count and size.
+ */
+export async function drawOverlayPages(
+	pdfBuffer: Buffer,
+	overlayBuffer: Buffer,
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const overlayPages = (await PDFDocument.load(overlayBuffer)).getPages();
+
+	for (const [index, page] of pdfDoc.getPages().entries()) {
+		const overlayPage = overlayPages[index];
+		// Pages without content have nothing to draw
+		if (!overlayPage?.node.Contents()) continue;
+		page.drawPage(await pdfDoc.embedPage(overlayPage), { x: 0, y: 0 });
+	}
+
+	const modifiedPdf = await pdfDoc.save();
+	return Buffer.from(modifiedPdf);
+}
+
+/**
+ * Write /PageLabels for the page number zones into a PDF.
+ * The first zone starts after the cover page (if any), the other zones
+ * at their page marker.
+ */
+export async function addPageLabels(
+	pdfBuffer: Buffer,
+	zones: PageNumberZone[],
+	options: { cover?: boolean } = {},
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const firstPage = options.cover ? 1 : 0;
+	const starts = getZoneStarts(extractPageMarkers(pdfDoc), zones, firstPage);
+	const nums: Array<number | PDFDict> = [];
+
+	// The cover has no page number
+	if (firstPage > 0) {
+		nums.push(0, pdfDoc.context.obj({}));
+	}
+
+	for (const { pageIndex, number, format } of starts) {
+		nums.push(
+			pageIndex,
+			pdfDoc.context.obj({
+				S: PDFName.of(LABEL_STYLES[format]),
+				...(number === 1 ? {} : { St: number }),
+			}),
+		);
+	}
+
+	pdfDoc.catalog.set(
+		PDFName.of("PageLabels"),
+		pdfDoc.context.obj({ Nums: nums }),
+	);
+
+	const modifiedPdf = await pdfDoc.save();
+	return Buffer.from(modifiedPdf);
+}
@@ -0,0 +1,142 @@
+/**
+ * Page markers for PDF post-processing.
+ *
+ * Like the form field markers (see acroform.ts), a page marker is an
+ * invisible link in the HTML. Chrome turns it into a PDF link annotation,
+ * which tells us on which page (and where) the marked content ended up.
+ * The marker annotations are removed after reading them.
+ */
+
+import { PDFArray, PDFDict, type PDFDocument, PDFName } from "@folknor/pdf-lib";
+import { MARKER_URL_PREFIX } from "./form-fields.js";
+
+/**
+ * URL prefix of page markers: https://mdforge.marker/page/{id}
+ */
+const PAGE_MARKER_PREFIX = `${MARKER_URL_PREFIX}page/`;
+
+/**
+ * Regex to match an opening tag with an id: a heading or figure (marker
+ * inside, so it follows page breaks before the element) or any other
+ * element (marker before it)
+ */
+const TARGET_REGEX = /<([a-z][\w-]*)\b[^>]*\bid="([^"]+)"[^>]*>/g;
+
+/**
+ * Where a page marker ended up in the PDF
+ */
+export interface PageMarker {
+	id: string;
+	/** Page index (0-based) */
+	pageIndex: number;
+	/** Top edge of the marker, in PDF coordinates */
+	y: number;
+}
+
+/**
+ * HTML for a page marker. The marker is placed at the top of its
+ * positioned container, without affecting the layout (or page breaks)
+ * of the content. It is a <span>, so it can be used in paragraphs.
+ */
+export function pageMarkerHtml(id: string): string {
+	return `<span class="page-marker"><a href="${PAGE_MARKER_PREFIX}${encodeURIComponent(id)}" aria-hidden="true"></a></span>`;
+}
+
+/**
+ * Add a page marker to the elements with an id that isTarget accepts, by
+ * id and opening tag. The marker id is the element id with a prefix.
+ */
+export function addTargetMarkers(
+	html: string,
+	prefix: string,
+	isTarget: (id: string, tag: string) => boolean,
+): string {
+	return html.replace(TARGET_REGEX, (tag, element: string, id: string) => {
+		if (!isTarget(id, tag)) return tag;
+		const marker = pageMarkerHtml(prefix + id);
+		return /^(h[1-6]|figure)$/.test(element)
+			? `${tag}${marker}`
+			: `<span class="page-marker-target">${marker}</span>${tag}`;
+	});
+}
+
+/**
+ * CSS for page markers: a full width, 1px high link that takes no space.
+ * Targets of addTargetMarkers are positioned, for the marker.
+ */
+export const pageMarkerCss = `
+:is(h1, h2, h3, h4, h5, h6, figure):has(> .page-marker) {
+  position: relative;
+}
+
+.page-marker-target {
+  display: inline-block;
+  position: relative;
+  width: 1px;
+  height: 1px;
+  margin-right: -1px;
+}
+
+.page-marker {
+  position: absolute;
+  top: 0;
+  left: 0;
+  right: 0;
+}
+
+.page-marker a {
+  display: block;
+  height: 1px;
+}
+`;
+
+/**
+ * Read all page markers from a PDF and remove their link annotations.
+ * With a prefix, only the markers whose id starts with it.
+ * Markers are returned in document order.
+ */
+export function extractPageMarkers(
+	pdfDoc: PDFDocument,
+	prefix: string = "",
+): PageMarker[] {
+	const markers: PageMarker[] = [];
+	const pages = pdfDoc.getPages();
+
+	for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+		const page = pages[pageIndex];
+		if (!page) continue;
+
+		const annots = page.node.lookup(PDFName.of("Annots"));
+		if (!(annots instanceof PDFArray)) continue;
+
+		// Walk backwards so removing an annotation keeps the indices valid
+		for (let index = annots.size() - 1; index >= 0; index--) {
+			const annot = annots.lookup(index);
+			if (!(annot instanceof PDFDict)) continue;
+
+			const action = annot.lookup(PDFName.of("A"));
+			if (!(action instanceof PDFDict)) continue;
+
+			// URI is a literal string: "(url)"
+			const uri = action.get(PDFName.of("URI"))?.toString() ?? "";
+			const url = uri.replace(/^\((.*)\)$/, "$1");
+			if (!url.startsWith(PAGE_MARKER_PREFIX)) continue;
+			const id = decodeURIComponent(url.slice(PAGE_MARKER_PREFIX.length));
+			if (!id.startsWith(prefix)) continue;
+
+			const rect = annot.lookup(PDFName.of("Rect"));
+			const top =
+				rect instanceof PDFArray ? Number(rect.get(3)?.toString()) : 0;
+
+			markers.push({
+				id,
+				pageIndex,
+				y: top,
+			});
+			annots.remove(index);
+		}
+	}
+
+	// Top to bottom within a page
+	return markers.sort((a, b) => a.pageIndex - b.pageIndex || b.y - a.y);
+}
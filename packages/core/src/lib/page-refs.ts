@@ -0,0 +1,122 @@
+/**
+ * Page references for mdforge.
+ *
+ * TOC entries and list of figures/tables entries (with
+ * `toc_options.page_numbers`) and @see(Section){page} show the page their
+ * target lands on:
+ *
+ *   <span class="page-ref" data-target="#section"></span>
+ *
+ * Paged media engines fill these in with CSS target-counter(). Chrome
+ * doesn't support target-counter(), so for PDF output the document is
+ * rendered twice: a draft with a page marker at every target tells on
+ * which page each target lands, and the numbers are written into the
+ * references before the final render.
+ */
+
+import { PDFDocument } from "@folknor/pdf-lib";
+import { getPageLabels, type PageNumberZone } from "./page-labels.js";
+import {
+	addTargetMarkers,
+	extractPageMarkers,
+	pageMarkerCss,
+} from "./page-markers.js";
+
+/**
+ * Regex to match a page reference
+ */
+const PAGE_REF_REGEX =
+	/<span class="page-ref" data-target="#([^"]+)">[^<]*<\/span>/g;
+
+/**
+ * Page marker id prefix for page reference targets
+ */
+const MARKER_PREFIX = "ref:";
+
+/**
+ * Placeholder page number for the draft, so references take about the
+ * same space as with the real numbers
+ */
+const PLACEHOLDER = "000";
+
+/**
+ * HTML for a reference to the page of an element, by id
+ */
+export function pageRefHtml(id: string): string {
+	return `<span class="page-ref" data-target="#${id}"></span>`;
+}
+
+/**
+ * Check if the HTML contains page references
+ */
+export function hasPageRefs(html: string): boolean {
+	return html.includes('<span class="page-ref"');
+}
+
+/**
+ * Write page numbers into the page references.
+ * Without pages, a placeholder number is used (for the draft render).
+ */
+export function fillPageRefs(
+	html: string,
+	pages?: Map<string, string>,
+): string {
+	return html.replace(PAGE_REF_REGEX, (_, id: string) => {
+		const page = pages ? (pages.get(id) ?? "") : PLACEHOLDER;
+		return `<span class="page-ref" data-target="#${id}">${page}</span>`;
+	});
+}
+
+/**
+ * Add a page marker to every element that a page reference points to
+ * (draft render)
+ */
+export function addPageRefMarkers(html: string): string {
+	const targets = new Set(
+		Array.from(html.matchAll(PAGE_REF_REGEX), (match) => match[1]),
+	);
+
+	return addTargetMarkers(html, MARKER_PREFIX, (id) => targets.has(id));
+}
+
+/**
+ * Read the pages of the page reference targets from the draft PDF,
+ * formatted like the page numbers in headers/footers. Returns page
+ * labels by id.
+ */
+export async function findPageRefs(
+	pdfBuffer: Buffer,
+	zones: PageNumberZone[],
+	options: { cover?: boolean } = {},
+): Promise<Map<string, string>> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const markers = extractPageMarkers(pdfDoc);
+	const labels = getPageLabels(markers, pdfDoc.getPageCount(), zones, options);
+
+	return new Map(
+		markers
+			.filter((marker) => marker.id.startsWith(MARKER_PREFIX))
+			.map((marker) => [
+				marker.id.slice(MARKER_PREFIX.length),
+				labels[marker.pageIndex] ?? "",
+			]),
+	);
+}
+
+/**
+ * CSS for page references and the page markers of the draft render
+ */
+export const pageRefsCss = `
+.page-ref {
+  font-variant-numeric: tabular-nums;
+}
+
+/* Paged media engines: numbers from target-counter() */
+@supports (content: target-counter(attr(href url), page)) {
+  .page-ref:empty::after {
+    content: target-counter(attr(data-target url), page);
+  }
+}
+
+/* Draft render: page markers at the targets */
+${pageMarkerCss}`;
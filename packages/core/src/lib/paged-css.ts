@@ -1,11 +1,44 @@
 import { promises as fs } from "node:fs";
 import { extname, resolve } from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import type { PDFOptions } from "puppeteer";
 import type {
 	HeaderFooterColumn,
+	HeaderFooterColumns,
 	HeaderFooterValue,
+	MirrorMarginsConfig,
 	PageNumberFormat,
 	PageNumbersConfig,
 } from "./config.js";
+import type { PageCounters, PageNumberZone } from "./page-labels.js";
+import {
+	emptyRunningHeadingsCss,
+	RUNNING_HEADING_REGEX,
+	runningHeadingStyle,
+} from "./running-headings.js";
+import {
+	escapeHtml,
+	getMarginObject,
+	getPageSize,
+	lengthToPoints,
+} from "./util.js";
+
+/**
+ * Smallest top or bottom margin (in PDF points) with room for a header or
+ * footer: 5mm
+ */
+const MIN_HEADER_MARGIN: number = (5 / 25.4) * 72;
+
+/**
+ * Top and bottom margins of CSS headers/footers when pdf_options has the
+ * default margins, which leave little room for a header or footer
+ */
+const HEADER_FOOTER_MARGIN = "25mm";
+
+/**
+ * Regex to match a page variable: {page} or {pages}
+ */
+const PAGE_VARIABLE_REGEX: RegExp = /\{pages?\}/;
 
 /**
  * MIME types for image embedding
@@ -22,7 +55,7 @@ const MIME_TYPES: Record<string, string> = {
 /**
  * Format date with optional locale
  */
-function formatDate(locale?: string): string {
+export function formatDate(locale?: string): string {
 	const date = new Date();
 	try {
 		return date.toLocaleDateString(locale, {
@@ -38,9 +71,10 @@ function formatDate(locale?: string): string {
 /**
  * Convert image path to base64 data URI
  */
-async function imageToDataUri(
+export async function imageToDataUri(
 	imagePath: string,
 	baseDir: string,
+	onRead?: (path: string) => void,
 ): Promise<string | null> {
 	try {
 		const fullPath = resolve(baseDir, imagePath);
@@ -49,6 +83,7 @@ async function imageToDataUri(
 		if (!mimeType) return null;
 
 		const imageData = await fs.readFile(fullPath);
+		onRead?.(fullPath);
 		const base64 = imageData.toString("base64");
 		return `data:${mimeType};base64,${base64}`;
 	} catch {
@@ -82,7 +117,11 @@ function scaleSvg(svgContent: string, scalePercent: number): string {
  * Process image references and convert to data URI
  * Supports: "logo.svg" or "logo.svg 80%"
  */
-async function processImages(text: string, baseDir: string): Promise<string> {
+async function processImages(
+	text: string,
+	baseDir: string,
+	onRead?: (path: string) => void,
+): Promise<string> {
 	// Match: filename.ext optionally followed by NN%
 	// Also support markdown syntax: ![alt](src) NN%
 	const patterns = [
@@ -121,6 +160,7 @@ async function processImages(text: string, baseDir: string): Promise<string> {
 
 			try {
 				let imageData = await fs.readFile(fullPath);
+				onRead?.(fullPath);
 
 				// For SVG with size specified, scale it
 				if (ext === ".svg" && sizePercent) {
@@ -160,11 +200,22 @@ function formatToCssCounterStyle(format?: PageNumberFormat): string {
 	}
 }
 
+/**
+ * The pages of a margin box: the page number format, and the CSS page
+ * name of the page number zone (undefined for the first zone)
+ */
+interface MarginPages {
+	format?: PageNumberFormat;
+	zone?: string;
+}
+
 /**
  * Convert our variable syntax to CSS content syntax
  */
-function variablesToCss(text: string, pageFormat?: PageNumberFormat): string {
-	const counterStyle = formatToCssCounterStyle(pageFormat);
+function variablesToCss(text: string, pages: MarginPages): string {
+	const counterStyle = formatToCssCounterStyle(pages.format);
+	const runningHeading = (level: number): string =>
+		`" counter(page, ${runningHeadingStyle(level, pages.zone)}) "`;
 	const pageCounter =
 		counterStyle === "decimal"
 			? "counter(page)"
@@ -185,6 +236,12 @@ function variablesToCss(text: string, pageFormat?: PageNumberFormat): string {
 			.replace(/\{pages\}/g, `" ${pagesCounter} "`)
 			// Title uses CSS variable (injected at build time from first h1)
 			.replace(/\{title\}/g, '" var(--doc-title) "')
+			// Running headings are counter styles with the heading of each page
+			.replace(/\{chapter\}/g, runningHeading(1))
+			.replace(/\{section\}/g, runningHeading(2))
+			.replace(/\{heading:([1-6])\}/g, (_, level) =>
+				runningHeading(Number(level)),
+			)
 	);
 }
 
@@ -230,17 +287,18 @@ interface ContentResult {
 async function buildContentValue(
 	text: string,
 	baseDir: string,
-	pageFormat?: PageNumberFormat,
+	pages: MarginPages,
+	onRead?: (path: string) => void,
 ): Promise<ContentResult> {
 	// Process images first (converts ![](path) to url("data:..."))
-	let processed = await processImages(text, baseDir);
+	let processed = await processImages(text, baseDir, onRead);
 
 	// Process markdown and extract styles
 	const { text: mdProcessed, styles } = processMarkdown(processed);
 	processed = mdProcessed;
 
 	// Convert variables to CSS syntax
-	processed = variablesToCss(processed, pageFormat);
+	processed = variablesToCss(processed, pages);
 
 	// If it contains url() from image processing, handle specially
 	if (processed.includes('url("data:')) {
@@ -277,6 +335,97 @@ function normalizeToColumns(
 	return value;
 }
 
+/**
+ * Columns of a header/footer on odd or even pages, when they differ
+ */
+function sideColumns(
+	value: HeaderFooterColumn,
+	side: "odd" | "even",
+): HeaderFooterColumns | undefined {
+	const columns = value[side];
+	if (columns === undefined) return;
+	return typeof columns === "string" ? { center: columns } : columns;
+}
+
+/**
+ * Check if a header/footer has different columns on odd and even pages
+ */
+export function hasOddEven(value: HeaderFooterValue | undefined): boolean {
+	const columns = normalizeToColumns(value);
+	return columns.odd !== undefined || columns.even !== undefined;
+}
+
+/**
+ * Get the page margins of Puppeteer PDF options as an object, empty (no
+ * margins) when there are none
+ */
+export function getPageMargin(
+	options: PDFOptions = {},
+): NonNullable<PDFOptions["margin"]> {
+	const margin =
+		typeof options.margin === "string"
+			? getMarginObject(options.margin)
+			: options.margin;
+	return margin ?? {};
+}
+
+/**
+ * PDF options for CSS headers/footers: with the margins of the default
+ * PDF options, the top and bottom margins are HEADER_FOOTER_MARGIN
+ */
+export function headerFooterPdfOptions(
+	options: PDFOptions,
+	defaults: PDFOptions,
+): PDFOptions {
+	if (!isDeepStrictEqual(options.margin, defaults.margin)) {
+		return options;
+	}
+	return {
+		...options,
+		margin: {
+			...getPageMargin(options),
+			top: HEADER_FOOTER_MARGIN,
+			bottom: HEADER_FOOTER_MARGIN,
+		},
+	};
+}
+
+/**
+ * CSS length of a Puppeteer length: numbers are pixels, a missing side is 0
+ */
+function cssLength(value: string | number | undefined): string {
+	return typeof value === "number" ? `${value}px` : (value ?? "0mm");
+}
+
+/**
+ * CSS @page rules for mirrored margins: the inside margin (with the
+ * gutter) on the left of right-hand (odd) pages and on the right of
+ * left-hand (even) pages. Top and bottom margins are kept.
+ */
+export function mirrorMarginsCss(
+	margin: NonNullable<PDFOptions["margin"]>,
+	mirror: MirrorMarginsConfig,
+): string {
+	const outside = cssLength(mirror.outside ?? margin.right);
+	const inside = mirror.gutter
+		? `calc(${cssLength(mirror.inside ?? margin.left)} + ${mirror.gutter})`
+		: cssLength(mirror.inside ?? margin.left);
+	return `@page {
+  margin-top: ${cssLength(margin.top)};
+  margin-bottom: ${cssLength(margin.bottom)};
+}
+
+@page :left {
+  margin-left: ${outside};
+  margin-right: ${inside};
+}
+
+@page :right {
+  margin-left: ${inside};
+  margin-right: ${outside};
+}`;
+}
+
 /**
  * Configuration for paged CSS generation
  */
@@ -286,6 +435,51 @@ export interface PagedCssConfig {
 	page_numbers?: PageNumbersConfig;
 	/** Document title for {title} variable */
 	title?: string;
+	/** First page is a cover: no header/footer, not counted in page numbers */
+	cover?: boolean;
+	/** Page number zones from <!-- page-numbers: ... --> markers */
+	zones?: PageNumberZone[];
+	/** Mirrored inside/outside margins for duplex printing */
+	mirror_margins?: MirrorMarginsConfig;
+	/**
+	 * Page size and margins for the @page rule. Default: A4 without margins.
+	 * The config's pdf_options always has margins, 20mm by default
+	 */
+	pdf_options?: PDFOptions;
+}
+
+/**
+ * Warnings for page options that conflict: Puppeteer ignores width and
+ * height with a format, and a header or footer needs a top or bottom
+ * margin to be drawn in
+ */
+export function pageSetupWarnings(config: PagedCssConfig): string[] {
+	const options = config.pdf_options ?? {};
+	const warnings: string[] = [];
+
+	const sizes = (["width", "height"] as const).filter(
+		(key) => options[key] !== undefined,
+	);
+	if (options.format && sizes.length > 0) {
+		warnings.push(
+			`Page size: pdf_options.${sizes.join(" and ")} ignored, format "${options.format}" takes priority`,
+		);
+	}
+
+	const margin = getPageMargin(options);
+	const bands = [
+		{ name: "header", value: config.header, side: "top" },
+		{ name: "footer", value: config.footer, side: "bottom" },
+	] as const;
+	for (const { name, value, side } of bands) {
+		const length = margin[side];
+		if (value && lengthToPoints(length) < MIN_HEADER_MARGIN) {
+			warnings.push(
+				`Page margins: the ${side} margin (${cssLength(length)}) leaves no room for the ${name}`,
+			);
+		}
+	}
+	return warnings;
 }
 
 /**
@@ -298,25 +492,118 @@ export function hasBackground(config: PagedCssConfig): boolean {
 	return header.background !== undefined || footer.background !== undefined;
 }
 
+/**
+ * Check if Puppeteer header/footer templates can't show the page numbers:
+ * they only count in arabic from 1, so other formats, start values and
+ * zones are drawn over the pages with buildPageNumberOverlay
+ */
+export function needsPageNumberOverlay(config: PagedCssConfig): boolean {
+	const hasPageNumbers = [config.header, config.footer].some((value) =>
+		Object.values(pageNumberColumns(value)).some(Boolean),
+	);
+	return (
+		hasPageNumbers &&
+		((config.page_numbers?.format ?? "arabic") !== "arabic" ||
+			(config.page_numbers?.start ?? 1) !== 1 ||
+			(config.zones ?? []).some((zone) => zone.name))
+	);
+}
+
+/**
+ * Columns of a header/footer that show {page} or {pages}
+ */
+function pageNumberColumns(
+	value: HeaderFooterValue | undefined,
+): HeaderFooterColumns {
+	const columns = normalizeToColumns(value);
+	const result: HeaderFooterColumns = {};
+	for (const column of ["left", "center", "right"] as const) {
+		const text = columns[column];
+		if (text && PAGE_VARIABLE_REGEX.test(text)) result[column] = text;
+	}
+	return result;
+}
+
+/**
+ * A header/footer without the columns that show {page} or {pages}, for a
+ * Puppeteer template with the page numbers in an overlay
+ */
+export function withoutPageNumbers(
+	value: HeaderFooterValue | undefined,
+): HeaderFooterColumn {
+	const columns = { ...normalizeToColumns(value) };
+	for (const column of Object.keys(pageNumberColumns(value))) {
+		delete columns[column as keyof HeaderFooterColumns];
+	}
+	return columns;
+}
+
+/**
+ * CSS of the columns of a header/footer template
+ */
+const TEMPLATE_COLUMNS_CSS = `
+		.hf-left { text-align: left; flex: 1; }
+		.hf-center { text-align: center; flex: 1; }
+		.hf-right { text-align: right; flex: 1; }`;
+
+/**
+ * CSS of a header/footer template row
+ */
+function templateCss(containerClass: string, backgroundCss: string): string {
+	return `
+		.${containerClass} {
+			width: 100%;
+			padding: 12px 24px;
+			-webkit-print-color-adjust: exact;
+			display: flex;
+			justify-content: space-between;
+			align-items: center;
+			font-family: Georgia, serif;
+			font-size: 10px;
+			line-height: 1.2;
+			color: #333;
+			min-height: 24px;
+			${backgroundCss}
+		}`;
+}
+
+/**
+ * HTML of a header/footer template row
+ */
+function templateRow(
+	containerClass: string,
+	columns: HeaderFooterColumns,
+	values?: TemplateValues,
+): string {
+	const [left, center, right] = (["left", "center", "right"] as const).map(
+		(column) => {
+			const text = columns[column];
+			return text ? processTextForHtml(text, values) : "";
+		},
+	);
+	return `<div class="${containerClass}">
+		<span class="hf-left">${left}</span>
+		<span class="hf-center">${center}</span>
+		<span class="hf-right">${right}</span>
+	</div>`;
+}
+
 /**
  * Build a Puppeteer header/footer template HTML
+ * The optional onRead callback receives the path of every image read.
  */
 export async function buildPuppeteerTemplate(
 	value: HeaderFooterValue | undefined,
 	type: "header" | "footer",
 	baseDir: string,
+	onRead?: (path: string) => void,
 ): Promise<string> {
 	const columns = normalizeToColumns(value);
 
-	// Build content for each column
-	const left = columns.left ? processTextForHtml(columns.left) : "";
-	const center = columns.center ? processTextForHtml(columns.center) : "";
-	const right = columns.right ? processTextForHtml(columns.right) : "";
-
 	// Build background CSS if specified
 	let backgroundCss = "";
 	if (columns.background) {
-		const dataUri = await imageToDataUri(columns.background, baseDir);
+		const dataUri = await imageToDataUri(columns.background, baseDir, onRead);
 		if (dataUri) {
 			// Header backgrounds anchor to bottom, footer to top
 			const position = type === "header" ? "bottom" : "top";
@@ -339,51 +626,96 @@ export async function buildPuppeteerTemplate(
 	return `<html>
 <head>
 	<style type="text/css">
-		#header, #footer { padding: 0 !important; }
-		.${containerClass} {
-			width: 100%;
-			padding: 12px 24px;
-			-webkit-print-color-adjust: exact;
-			display: flex;
-			justify-content: space-between;
-			align-items: center;
-			font-family: Georgia, serif;
-			font-size: 10px;
-			line-height: 1.2;
-			color: #333;
-			min-height: 24px;
-			${backgroundCss}
-		}
-		.hf-left { text-align: left; flex: 1; }
-		.hf-center { text-align: center; flex: 1; }
-		.hf-right { text-align: right; flex: 1; }
+		#header, #footer { padding: 0 !important; }${templateCss(containerClass, backgroundCss)}${TEMPLATE_COLUMNS_CSS}
 	</style>
 </head>
 <body>
-	<div class="${containerClass}">
-		<span class="hf-left">${left}</span>
-		<span class="hf-center">${center}</span>
-		<span class="hf-right">${right}</span>
-	</div>
+	${templateRow(containerClass, columns)}
 </body>
 </html>`;
 }
 
 /**
- * Process text for HTML template (variables and markdown)
+ * Build the HTML of an overlay with the header/footer columns that show
+ * {page} or {pages}, one page for each page of the PDF. The columns are
+ * laid out like the Puppeteer templates, at the top and bottom of the
+ * page (size in PDF points).
  */
-function processTextForHtml(text: string): string {
+export function buildPageNumberOverlay(
+	config: PagedCssConfig,
+	counters: PageCounters[],
+	size: { width: number; height: number },
+): string {
+	const bands = [
+		{ type: "header", columns: pageNumberColumns(config.header) },
+		{ type: "footer", columns: pageNumberColumns(config.footer) },
+	] as const;
+	const pages = counters.map(
+		(counter) => `<div class="hf-page">
+${bands
+	.map(
+		({ type, columns }) => `	<div class="hf-band hf-${type}">
+		${templateRow(`hf-${type}-container`, columns, { ...counter, title: config.title ?? "" })}
+	</div>`,
+	)
+	.join("\n")}
+</div>`,
+	);
+
+	// Pages are rounded down, so a page never spills over onto the next
+	return `<html>
+<head>
+	<style type="text/css">
+		@page { size: ${size.width}pt ${size.height}pt; margin: 0; }
+		html, body { margin: 0; background: transparent; }
+		.hf-page { position: relative; height: ${Math.floor(size.height)}pt; overflow: hidden; }
+		.hf-page + .hf-page { break-before: page; }
+		.hf-band { position: absolute; left: 0; right: 0; display: flex; }
+		.hf-header { top: 0; }
+		.hf-footer { bottom: 0; }${bands.map(({ type }) => templateCss(`hf-${type}-container`, "")).join("")}${TEMPLATE_COLUMNS_CSS}
+	</style>
+</head>
+<body>
+${pages.join("\n")}
+</body>
+</html>`;
+}
+
+/**
+ * Values of the template variables, for columns drawn outside of
+ * Puppeteer's templates
+ */
+interface TemplateValues extends PageCounters {
+	title: string;
+}
+
+/**
+ * Process text for HTML template (variables and markdown). Without values,
+ * page numbers, title and URL are left to Puppeteer.
+ */
+function processTextForHtml(text: string, values?: TemplateValues): string {
 	return (
 		text
 			// Page variables → Puppeteer special classes
-			.replace(/\{page\}/g, '<span class="pageNumber"></span>')
-			.replace(/\{pages\}/g, '<span class="totalPages"></span>')
+			.replace(
+				/\{page\}/g,
+				values ? escapeHtml(values.page) : '<span class="pageNumber"></span>',
+			)
+			.replace(
+				/\{pages\}/g,
+				values ? escapeHtml(values.pages) : '<span class="totalPages"></span>',
+			)
 			// Date → current date string
 			.replace(/\{date:([^}]+)\}/g, (_, locale) => formatDate(locale))
 			.replace(/\{date\}/g, formatDate())
 			// Title/URL → Puppeteer special classes
-			.replace(/\{title\}/g, '<span class="title"></span>')
-			.replace(/\{url\}/g, '<span class="url"></span>')
+			.replace(
+				/\{title\}/g,
+				values ? escapeHtml(values.title) : '<span class="title"></span>',
+			)
+			.replace(/\{url\}/g, values ? "" : '<span class="url"></span>')
+			// Running headings are only known to CSS margin boxes
+			.replace(RUNNING_HEADING_REGEX, "")
 			// Simple markdown
 			.replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
 			.replace(/\*([^*]+)\*/g, "<em>$1</em>")
@@ -418,11 +750,13 @@ function transformCssSelectors(css: string): string {
 
 /**
  * Generate CSS @page rules from simplified config
+ * The optional onRead callback receives the path of every image read.
  */
 export async function generatePagedCss(
 	config: PagedCssConfig,
 	themeCss: string,
 	baseDir: string,
+	onRead?: (path: string) => void,
 ): Promise<string> {
 	// Transform simple selectors to @page rules
 	const processedCss = transformCssSelectors(themeCss);
@@ -432,46 +766,121 @@ export async function generatePagedCss(
 	const pageFormat = config.page_numbers?.format;
 	const pageStart = config.page_numbers?.start;
 
-	const marginRules: string[] = [];
-
-	// Helper to build margin rule with optional extra styles
-	const addMarginRule = async (
-		position: string,
-		text: string,
-	): Promise<void> => {
-		const { content, styles } = await buildContentValue(
-			text,
-			baseDir,
-			pageFormat,
-		);
-		const extraStyles = styles.length > 0 ? `${styles.join("; ")}; ` : "";
-		marginRules.push(`@${position} { ${extraStyles}content: ${content}; }`);
-	};
-
-	// Header positions
-	if (header.left) await addMarginRule("top-left", header.left);
-	if (header.center) await addMarginRule("top-center", header.center);
-	if (header.right) await addMarginRule("top-right", header.right);
-
-	// Footer positions
-	if (footer.left) await addMarginRule("bottom-left", footer.left);
-	if (footer.center) await addMarginRule("bottom-center", footer.center);
-	if (footer.right) await addMarginRule("bottom-right", footer.right);
-
 	// Common margin box styling
 	const marginStyle = `
     font-family: var(--font-body, system-ui, sans-serif);
     font-size: calc(var(--font-size, 12pt) * 0.7);
     color: var(--color-text, #333);`;
 
-	// Add styling to each margin rule
-	const styledMarginRules = marginRules.map((rule) =>
-		rule.replace("{ content:", `{${marginStyle}\n    content:`),
-	);
+	// Build the styled margin rules for the pages of a page number zone.
+	// For odd or even pages, only headers/footers that differ on that side
+	// get rules, with empty columns cleared
+	const buildMarginRules = async (
+		pages: MarginPages,
+		side: "odd" | "even" | "both" = "both",
+	): Promise<string[]> => {
+		const marginRules: string[] = [];
+		const cleared: string[] = [];
+
+		// Helper to build margin rule with optional extra styles
+		const addMarginRule = async (
+			position: string,
+			text: string,
+		): Promise<void> => {
+			const { content, styles } = await buildContentValue(
+				text,
+				baseDir,
+				pages,
+				onRead,
+			);
+			const extraStyles = styles.length > 0 ? `${styles.join("; ")}; ` : "";
+			marginRules.push(`@${position} { ${extraStyles}content: ${content}; }`);
+		};
+
+		const bands = [
+			{ edge: "top", value: header },
+			{ edge: "bottom", value: footer },
+		];
+		for (const { edge, value } of bands) {
+			const columns = side === "both" ? value : sideColumns(value, side);
+			if (!columns) continue;
+			for (const column of ["left", "center", "right"] as const) {
+				const text = columns[column];
+				if (text) await addMarginRule(`${edge}-${column}`, text);
+				else if (side !== "both") {
+					cleared.push(`@${edge}-${column} { content: none; }`);
+				}
+			}
+		}
+
+		// Add styling to each margin rule
+		return [
+			...marginRules.map((rule) =>
+				rule.replace("{ content:", `{${marginStyle}\n    content:`),
+			),
+			...cleared,
+		];
+	};
+
+	const styledMarginRules = await buildMarginRules({ format: pageFormat });
+
+	// Odd pages are right-hand pages, even pages left-hand pages
+	const sides = [
+		{ side: "odd", selector: ":right" },
+		{ side: "even", selector: ":left" },
+	] as const;
+	const buildSideRules = async (pages: MarginPages): Promise<string[]> => {
+		const rules: string[] = [];
+		for (const { side, selector } of sides) {
+			const marginRules = await buildMarginRules(pages, side);
+			if (marginRules.length === 0) continue;
+			rules.push(`@page ${pages.zone ?? ""}${selector} {
+  ${marginRules.join("\n  ")}
+}`);
+		}
+		return rules;
+	};
+	const sideRules = await buildSideRules({ format: pageFormat });
+
+	// Named pages for page number zones, each with its own counter style.
+	// Like the start value below, the counter reset applies to the first page of the zone
+	const zoneRules: string[] = [];
+	for (const zone of config.zones ?? []) {
+		if (!zone.name) continue;
+		const zoneReset = zone.restart
+			? `\n  counter-reset: page ${zone.start - 1};`
+			: "";
+		const zonePages = { format: zone.format, zone: zone.name };
+		const zoneMarginRules = await buildMarginRules(zonePages);
+		zoneRules.push(`@page ${zone.name} {${zoneReset}
+
+  ${zoneMarginRules.join("\n  ")}
+}`);
+		// Named pages win over :left and :right, so zones repeat the sides
+		zoneRules.push(...(await buildSideRules(zonePages)));
+	}
+
+	// Page size and margins follow the PDF options, in points to cover
+	// every Puppeteer format
+	const pageOptions = config.pdf_options ?? { format: "a4" };
+	const { width, height } = getPageSize(pageOptions);
+	const pageMargin = getPageMargin(config.pdf_options);
+	const pageSize = `${Number(width.toFixed(2))}pt ${Number(height.toFixed(2))}pt`;
+	const margins = [
+		pageMargin.top,
+		pageMargin.right,
+		pageMargin.bottom,
+		pageMargin.left,
+	].map(cssLength);
+
+	const mirrorRules = config.mirror_margins
+		? mirrorMarginsCss(pageMargin, config.mirror_margins)
+		: "";
 
 	// Counter reset for custom start value (subtract 1 because counter increments before first page)
+	// With a cover, the reset moves to the cover page so the page after it gets the start value
 	const counterReset =
-		pageStart !== undefined && pageStart !== 1
+		pageStart !== undefined && pageStart !== 1 && !config.cover
 			? `\n  counter-reset: page ${pageStart - 1};`
 			: "";
 
@@ -480,6 +889,11 @@ export async function generatePagedCss(
 		? config.title.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
 		: "";
 
+	// Running headings are empty until the draft render knows the pages
+	const runningHeadingsCss = emptyRunningHeadingsCss(
+		[...styledMarginRules, ...sideRules, ...zoneRules].join("\n"),
+	);
+
 	// Build the CSS
 	const css = `
 /* Theme CSS */
@@ -490,15 +904,30 @@ ${processedCss}
   --doc-title: "${escapedTitle}";
 }
 
-/* Page setup */
+${runningHeadingsCss ? `/* Current headings for {chapter}, {section} and {heading:N} */\n${runningHeadingsCss}\n\n` : ""}/* Page setup */
 @page {
-  size: A4;
-  margin: 25mm 20mm;${counterReset}
+  size: ${pageSize};
+  margin: ${margins.join(" ")};${counterReset}
 
   ${styledMarginRules.join("\n  ")}
 }
-
+${sideRules.length > 0 ? `\n/* Odd and even pages */\n${sideRules.join("\n\n")}\n` : ""}${mirrorRules ? `\n/* Mirrored margins */\n${mirrorRules}\n` : ""}${zoneRules.length > 0 ? `\n/* Page number zones */\n${zoneRules.join("\n\n")}\n` : ""}
 /* First page exceptions */
+${
+	config.cover
+		? `
+@page:first {
+  counter-reset: page ${(pageStart ?? 1) - 2};
+  @top-left { content: none; }
+  @top-center { content: none; }
+  @top-right { content: none; }
+  @bottom-left { content: none; }
+  @bottom-center { content: none; }
+  @bottom-right { content: none; }
+}`
+		: ""
+}
+
 ${
 	header.firstPage === false
 		? `
@@ -1,4 +1,12 @@
-import { PDFDocument } from "@folknor/pdf-lib";
+import { randomBytes } from "node:crypto";
+import {
+	PDFDict,
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+	PDFNumber,
+	PDFString,
+} from "@folknor/pdf-lib";
 
 /**
  * PDF metadata configuration
@@ -10,6 +18,8 @@ export interface PdfMetadata {
 	keywords?: string[];
 	creator?: string;
 	producer?: string;
+	/** Document language (BCP 47), e.g. "en" or "de-CH", for screen readers */
+	language?: string;
 }
 
 /**
@@ -22,7 +32,8 @@ export async function injectPdfMetadata(
 	const pdfDoc = await PDFDocument.load(pdfBuffer);
 
 	if (metadata.title) {
-		pdfDoc.setTitle(metadata.title);
+		// Viewers show the title instead of the file name
+		pdfDoc.setTitle(metadata.title, { showInWindowTitleBar: true });
 	}
 	if (metadata.author) {
 		pdfDoc.setAuthor(metadata.author);
@@ -39,6 +50,9 @@ export async function injectPdfMetadata(
 	if (metadata.producer) {
 		pdfDoc.setProducer(metadata.producer);
 	}
+	if (metadata.language) {
+		pdfDoc.setLanguage(metadata.language);
+	}
 
 	// Always set modification date to now
 	pdfDoc.setModificationDate(new Date());
@@ -46,3 +60,338 @@ export async function injectPdfMetadata(
 	const modifiedPdf = await pdfDoc.save();
 	return Buffer.from(modifiedPdf);
 }
+
+/**
+ * Archival PDF standards: PDF/A-2b and PDF/A-3b (ISO 19005-2, -3), level
+ * B, which keeps the visual appearance
+ */
+export const pdfStandards = ["pdf-a-2b", "pdf-a-3b"] as const;
+export type PdfStandard = (typeof pdfStandards)[number];
+
+/**
+ * Name of the sRGB color space, for the profile and the output intent
+ */
+const SRGB = "sRGB IEC61966-2.1";
+
+/**
+ * Build an ICC profile (version 2) for sRGB: the primaries adapted to D50
+ * and the sRGB tone curve
+ */
+function buildSrgbProfile(): Buffer {
+	const padded = (data: Buffer): Buffer =>
+		Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+	const xyz = (x: number, y: number, z: number): Buffer => {
+		const data = Buffer.alloc(20);
+		data.write("XYZ ", 0, "latin1");
+		for (const [index, value] of [x, y, z].entries()) {
+			data.writeInt32BE(Math.round(value * 65536), 8 + index * 4);
+		}
+		return data;
+	};
+	const text = (type: "desc" | "text", value: string): Buffer => {
+		const ascii = Buffer.from(`${value}\0`, "latin1");
+		// Descriptions also have (empty) Unicode and ScriptCode versions
+		const data = Buffer.alloc(
+			type === "desc" ? 12 + ascii.length + 78 : 8 + ascii.length,
+		);
+		data.write(type, 0, "latin1");
+		if (type === "desc") {
+			data.writeUInt32BE(ascii.length, 8);
+			ascii.copy(data, 12);
+		} else {
+			ascii.copy(data, 8);
+		}
+		return data;
+	};
+
+	// sRGB tone curve, sampled
+	const samples = 1024;
+	const curve = Buffer.alloc(12 + samples * 2);
+	curve.write("curv", 0, "latin1");
+	curve.writeUInt32BE(samples, 8);
+	for (let index = 0; index < samples; index++) {
+		const value = index / (samples - 1);
+		const linear =
+			value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+		curve.writeUInt16BE(Math.round(linear * 65535), 12 + index * 2);
+	}
+
+	const tags: Array<[string, Buffer]> = [
+		["desc", text("desc", SRGB)],
+		["cprt", text("text", "No copyright, use freely")],
+		["wtpt", xyz(0.9505, 1, 1.089)],
+		["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+		["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+		["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+		["rTRC", curve],
+		["gTRC", curve],
+		["bTRC", curve],
+	];
+
+	// Header, tag table, then the tag data at 4-byte boundaries. The tone
+	// curves share their data
+	const tableSize = 4 + tags.length * 12;
+	const table = Buffer.alloc(tableSize);
+	table.writeUInt32BE(tags.length, 0);
+	const tagData: Buffer[] = [];
+	const offsets = new Map<Buffer, number>();
+	let offset = 128 + tableSize;
+	for (const [index, [signature, tag]] of tags.entries()) {
+		if (!offsets.has(tag)) {
+			offsets.set(tag, offset);
+			tagData.push(padded(tag));
+			offset += padded(tag).length;
+		}
+		table.write(signature, 4 + index * 12, "latin1");
+		table.writeUInt32BE(offsets.get(tag) ?? 0, 8 + index * 12);
+		table.writeUInt32BE(tag.length, 12 + index * 12);
+	}
+
+	const header = Buffer.alloc(128);
+	header.writeUInt32BE(offset, 0);
+	header.writeUInt32BE(0x02100000, 8);
+	header.write("mntrRGB XYZ ", 12, "latin1");
+	for (const [index, value] of [2000, 1, 1, 0, 0, 0].entries()) {
+		header.writeUInt16BE(value, 24 + index * 2);
+	}
+	header.write("acsp", 36, "latin1");
+	// PCS illuminant: D50
+	header.writeInt32BE(Math.round(0.9642 * 65536), 68);
+	header.writeInt32BE(65536, 72);
+	header.writeInt32BE(Math.round(0.8249 * 65536), 76);
+
+	return Buffer.concat([header, table, ...tagData]);
+}
+
+/**
+ * Escape text for XML
+ */
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+/**
+ * Build the XMP metadata of a PDF/A document from its document info, which
+ * it has to match
+ */
+function buildXmpMetadata(
+	info: {
+		title?: string;
+		author?: string;
+		subject?: string;
+		keywords?: string;
+		creator?: string;
+		producer?: string;
+		created: Date;
+		modified: Date;
+	},
+	standard: PdfStandard,
+): string {
+	const date = (value: Date): string =>
+		value.toISOString().replace(/\.\d+Z$/, "Z");
+	const alt = (value: string): string =>
+		`<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+	const properties = [
+		`<pdfaid:part>${standard === "pdf-a-3b" ? 3 : 2}</pdfaid:part>`,
+		"<pdfaid:conformance>B</pdfaid:conformance>",
+		"<dc:format>application/pdf</dc:format>",
+		info.title && `<dc:title>${alt(info.title)}</dc:title>`,
+		info.author &&
+			`<dc:creator><rdf:Seq><rdf:li>${escapeXml(info.author)}</rdf:li></rdf:Seq></dc:creator>`,
+		info.subject && `<dc:description>${alt(info.subject)}</dc:description>`,
+		info.keywords && `<pdf:Keywords>${escapeXml(info.keywords)}</pdf:Keywords>`,
+		info.producer && `<pdf:Producer>${escapeXml(info.producer)}</pdf:Producer>`,
+		info.creator &&
+			`<xmp:CreatorTool>${escapeXml(info.creator)}</xmp:CreatorTool>`,
+		`<xmp:CreateDate>${date(info.created)}</xmp:CreateDate>`,
+		`<xmp:ModifyDate>${date(info.modified)}</xmp:ModifyDate>`,
+		`<xmp:MetadataDate>${date(info.modified)}</xmp:MetadataDate>`,
+	].filter(Boolean);
+
+	return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      ${properties.join("\n      ")}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Names of the fonts of a PDF that are not embedded, e.g. the standard
+ * fonts used for watermark text
+ */
+function findUnembeddedFonts(pdfDoc: PDFDocument): string[] {
+	const context = pdfDoc.context;
+	const names = new Set<string>();
+
+	for (const [, object] of context.enumerateIndirectObjects()) {
+		if (
+			!(object instanceof PDFDict) ||
+			object.get(PDFName.of("Type")) !== PDFName.of("Font")
+		) {
+			continue;
+		}
+		const subtype = object.get(PDFName.of("Subtype"));
+		// Type 3 glyphs are drawn by the PDF itself, composite fonts keep
+		// their descriptor in the descendant font
+		if (subtype === PDFName.of("Type3") || subtype === PDFName.of("Type0")) {
+			continue;
+		}
+		const descriptor = object.lookupMaybe(
+			PDFName.of("FontDescriptor"),
+			PDFDict,
+		);
+		const embedded = ["FontFile", "FontFile2", "FontFile3"].some(
+			(key) => descriptor?.get(PDFName.of(key)) !== undefined,
+		);
+		if (!embedded) {
+			const baseFont = object.get(PDFName.of("BaseFont"));
+			names.add(baseFont instanceof PDFName ? baseFont.decodeText() : "?");
+		}
+	}
+
+	return [...names];
+}
+
+/**
+ * Remove JavaScript, which PDF/A forbids: JavaScript actions, additional
+ * actions (/AA) and the document's JavaScript name tree. Returns whether
+ * any was found.
+ */
+function removeJavaScript(pdfDoc: PDFDocument): boolean {
+	let found = false;
+
+	for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+		const dict = object instanceof PDFDict ? object : undefined;
+		if (!dict) continue;
+		if (dict.delete(PDFName.of("AA"))) found = true;
+		const action = dict.lookupMaybe(PDFName.of("A"), PDFDict);
+		if (action?.get(PDFName.of("S")) === PDFName.of("JavaScript")) {
+			dict.delete(PDFName.of("A"));
+			found = true;
+		}
+	}
+
+	const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+	if (names?.delete(PDFName.of("JavaScript"))) found = true;
+	const openAction = pdfDoc.catalog.lookup(PDFName.of("OpenAction"));
+	if (
+		openAction instanceof PDFDict &&
+		openAction.get(PDFName.of("S")) === PDFName.of("JavaScript")
+	) {
+		pdfDoc.catalog.delete(PDFName.of("OpenAction"));
+		found = true;
+	}
+
+	return found;
+}
+
+/**
+ * Make a PDF conform to PDF/A-2b or PDF/A-3b: XMP metadata matching the
+ * document info, an sRGB output intent, printable annotations, and no
+ * JavaScript. Fonts that are not embedded can't be fixed and are reported
+ * as warnings. This is the last change to the PDF, later changes would
+ * make the metadata out of date.
+ */
+export async function applyPdfStandard(
+	pdfBuffer: Buffer,
+	standard: PdfStandard,
+): Promise<{ content: Buffer; warnings: string[] }> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+	const context = pdfDoc.context;
+	const warnings: string[] = [];
+
+	// Dates without milliseconds, which the document info can't hold
+	const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+	const created = pdfDoc.getCreationDate() ?? now;
+	pdfDoc.setCreationDate(created);
+	pdfDoc.setModificationDate(now);
+
+	const xmp = buildXmpMetadata(
+		{
+			title: pdfDoc.getTitle(),
+			author: pdfDoc.getAuthor(),
+			subject: pdfDoc.getSubject(),
+			keywords: pdfDoc.getKeywords(),
+			creator: pdfDoc.getCreator(),
+			producer: pdfDoc.getProducer(),
+			created,
+			modified: now,
+		},
+		standard,
+	);
+	pdfDoc.catalog.set(
+		PDFName.of("Metadata"),
+		context.register(
+			context.stream(Buffer.from(xmp, "utf8"), {
+				Type: "Metadata",
+				Subtype: "XML",
+			}),
+		),
+	);
+
+	// Colors are device RGB, the output intent says they are sRGB
+	const profile = context.register(
+		context.stream(buildSrgbProfile(), { N: 3 }),
+	);
+	pdfDoc.catalog.set(
+		PDFName.of("OutputIntents"),
+		context.obj([
+			context.obj({
+				Type: "OutputIntent",
+				S: "GTS_PDFA1",
+				OutputConditionIdentifier: PDFString.of(SRGB),
+				Info: PDFString.of(SRGB),
+				RegistryName: PDFString.of("http://www.color.org"),
+				DestOutputProfile: profile,
+			}),
+		]),
+	);
+
+	// Annotations must be printed, and must not be hidden
+	for (const page of pdfDoc.getPages()) {
+		const annotations = page.node.Annots();
+		for (let index = 0; index < (annotations?.size() ?? 0); index++) {
+			const annotation = annotations?.lookupMaybe(index, PDFDict);
+			if (!annotation) continue;
+			const flags = annotation.lookupMaybe(PDFName.of("F"), PDFNumber);
+			// Print on, Invisible, Hidden and NoView off
+			annotation.set(
+				PDFName.of("F"),
+				PDFNumber.of(((flags?.asNumber() ?? 0) | 4) & ~(1 | 2 | 32)),
+			);
+		}
+	}
+
+	// Form fields need their appearances, not the viewer's
+	pdfDoc.catalog
+		.lookupMaybe(PDFName.of("AcroForm"), PDFDict)
+		?.delete(PDFName.of("NeedAppearances"));
+
+	if (removeJavaScript(pdfDoc)) {
+		warnings.push("PDF/A: JavaScript is not allowed and was removed");
+	}
+	for (const font of findUnembeddedFonts(pdfDoc)) {
+		warnings.push(
+			`PDF/A: font "${font}" is not embedded, e.g. in a watermark, so the PDF doesn't conform`,
+		);
+	}
+
+	if (!context.trailerInfo.ID) {
+		const id = PDFHexString.of(randomBytes(16).toString("hex"));
+		context.trailerInfo.ID = context.obj([id, id]);
+	}
+
+	const modifiedPdf = await pdfDoc.save({ updateFieldAppearances: false });
+	return { content: Buffer.from(modifiedPdf), warnings };
+}
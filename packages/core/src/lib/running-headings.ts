@@ -0,0 +1,200 @@
+/**
+ * Running headings for mdforge.
+ *
+ * Headers and footers can show the current headings: {chapter} (h1),
+ * {section} (h2) and {heading:N}. Paged media engines capture them with
+ * CSS string-set and string(), which Chrome doesn't support. Instead a
+ * draft render with a page marker in every heading tells which headings
+ * each page shows, and the text is written into the margin boxes as a
+ * counter style of the page counter: its symbols are the headings of the
+ * pages, in page order.
+ *
+ * A page shows its first heading of the level, or the last one before the
+ * page. A heading clears the levels below it, so a new chapter doesn't show
+ * the last section of the previous one.
+ */
+
+import { PDFDocument } from "@folknor/pdf-lib";
+import { htmlToText } from "./outline.js";
+import { getPageNumbers, type PageNumberZone } from "./page-labels.js";
+import { extractPageMarkers, pageMarkerHtml } from "./page-markers.js";
+
+/**
+ * Regex to match a running heading variable: {chapter} (h1), {section}
+ * (h2) or {heading:N}
+ */
+export const RUNNING_HEADING_REGEX: RegExp =
+	/\{(?:chapter|section|heading:[1-6])\}/g;
+
+/**
+ * Regex to match a heading: level, attributes, content
+ */
+const HEADING_REGEX = /<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/g;
+
+/**
+ * Page marker id prefix for headings
+ */
+const MARKER_PREFIX = "heading:";
+
+/**
+ * Counter style for pages without a value
+ */
+const EMPTY_STYLE = "running-heading-none";
+
+/**
+ * Regex to match a running heading in margin box CSS: the counter style
+ */
+const COUNTER_REGEX = /counter\(page, (running-heading-[\w-]+)\)/g;
+
+/**
+ * Heading levels of the running heading variables in a header/footer
+ * config, e.g. [1, 2] for {chapter} and {section}
+ */
+export function getRunningHeadingLevels(config: unknown): number[] {
+	const levels = Array.from(
+		JSON.stringify(config ?? "").matchAll(RUNNING_HEADING_REGEX),
+		([variable]) =>
+			variable === "{chapter}"
+				? 1
+				: variable === "{section}"
+					? 2
+					: Number(variable.slice(9, -1)),
+	);
+	return [...new Set(levels)];
+}
+
+/**
+ * Name of the counter style with the headings of a level, for the pages
+ * of a page number zone (the first zone has no name)
+ */
+export function runningHeadingStyle(level: number, zone?: string): string {
+	return `running-heading-${level}${zone ? `-${zone}` : ""}`;
+}
+
+/**
+ * Check if a heading shows in running headers: not visually hidden, like
+ * the heading of the footnotes
+ */
+function isRunningHeading(attributes: string): boolean {
+	return !/\bclass="[^"]*\bsr-only\b/.test(attributes);
+}
+
+/**
+ * Add a page marker to every heading (draft render)
+ */
+export function addRunningHeadingMarkers(html: string): string {
+	let index = 0;
+	return html.replace(
+		HEADING_REGEX,
+		(heading, level: string, attributes: string, content: string) =>
+			isRunningHeading(attributes)
+				? `<h${level}${attributes}>${pageMarkerHtml(`${MARKER_PREFIX}${index++}`)}${content}</h${level}>`
+				: heading,
+	);
+}
+
+/**
+ * Escape text for a CSS string
+ */
+function cssString(text: string): string {
+	return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * CSS for a counter style with a symbol for each page, from the page
+ * number first on. Without it, every page shows the first symbol.
+ * Empty symbols are a zero-width space, as a counter style can't have an
+ * empty symbol.
+ */
+function counterStyleCss(
+	name: string,
+	symbols: string[],
+	first?: number,
+): string {
+	const system =
+		first === undefined
+			? "cyclic"
+			: `fixed ${first};\n  fallback: ${EMPTY_STYLE}`;
+	return `@counter-style ${name} {
+  system: ${system};
+  symbols: ${symbols.map((symbol) => cssString(symbol || "\u200B")).join(" ")};
+  suffix: "";
+}`;
+}
+
+/**
+ * Empty counter styles for the running headings of margin box CSS, like
+ * string() before the first heading. They stay empty until the draft
+ * render replaces them (see getRunningHeadingsCss), e.g. in HTML output.
+ */
+export function emptyRunningHeadingsCss(css: string): string {
+	const names = new Set(
+		Array.from(css.matchAll(COUNTER_REGEX), ([, name = ""]) => name),
+	);
+	if (names.size === 0) return "";
+	return [EMPTY_STYLE, ...names]
+		.map((name) => counterStyleCss(name, [""]))
+		.join("\n\n");
+}
+
+/**
+ * Get the headings each page of the draft PDF shows, and write them as
+ * counter styles for the margin boxes (see runningHeadingStyle). Pages
+ * are numbered like the page counter, by zone.
+ */
+export async function getRunningHeadingsCss(
+	pdfBuffer: Buffer,
+	html: string,
+	zones: PageNumberZone[],
+	options: { cover?: boolean; levels: number[] },
+): Promise<string> {
+	const headings = Array.from(html.matchAll(HEADING_REGEX))
+		.filter(([, , attributes = ""]) => isRunningHeading(attributes))
+		.map(([, level = "", , content = ""]) => ({
+			level: Number(level),
+			text: htmlToText(content),
+		}));
+
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+	const markers = extractPageMarkers(pdfDoc);
+	const pageCount = pdfDoc.getPageCount();
+	const numbers = getPageNumbers(markers, pageCount, zones, options);
+
+	// Headings of every level on each page, in document order
+	const headingPages: Array<Array<{ level: number; text: string }>> =
+		Array.from({ length: pageCount }, () => []);
+	for (const marker of markers) {
+		if (!marker.id.startsWith(MARKER_PREFIX)) continue;
+		const heading = headings[Number(marker.id.slice(MARKER_PREFIX.length))];
+		if (heading) headingPages[marker.pageIndex]?.push(heading);
+	}
+
+	// Values by counter style name, starting at the page number of the
+	// first page of the zone
+	const styles = new Map<string, { first: number; symbols: string[] }>();
+	const current = ["", "", "", "", "", ""];
+	for (const [pageIndex, pageHeadings] of headingPages.entries()) {
+		const first: Array<string | undefined> = [];
+		for (const { level, text } of pageHeadings) {
+			first[level - 1] ??= text;
+			current.fill("", level);
+			current[level - 1] = text;
+		}
+
+		const page = numbers[pageIndex];
+		if (!page) continue;
+		for (const level of options.levels) {
+			const name = runningHeadingStyle(level, page.zone);
+			const style = styles.get(name) ?? { first: page.number, symbols: [] };
+			style.symbols.push(first[level - 1] ?? current[level - 1] ?? "");
+			styles.set(name, style);
+		}
+	}
+
+	return [
+		counterStyleCss(EMPTY_STYLE, [""]),
+		...Array.from(styles, ([name, { first, symbols }]) =>
+			counterStyleCss(name, symbols, first),
+		),
+	].join("\n\n");
+}
@@ -0,0 +1,303 @@
+/**
+ * PDF encryption for mdforge.
+ *
+ * Encrypts the generated PDF with the standard security handler of
+ * PDF 2.0 (AES-256, revision 6): an optional password to open the
+ * document, and permissions that only the owner password lifts. This is
+ * the last step after rendering, pdf-lib can't change the PDF after it.
+ */
+
+import { createCipheriv, createHash, randomBytes } from "node:crypto";
+import {
+	PDFArray,
+	PDFBool,
+	PDFDict,
+	PDFDocument,
+	PDFHeader,
+	PDFHexString,
+	PDFName,
+	PDFNumber,
+	type PDFObject,
+	PDFRawStream,
+	PDFStream,
+	PDFString,
+} from "@folknor/pdf-lib";
+
+/**
+ * What readers may do without the owner password. Everything is allowed
+ * unless set to false.
+ */
+export interface PdfPermissions {
+	/** Print the document, in high quality. Default: true */
+	printing?: boolean;
+	/** Copy text and images. Text for accessibility tools is always allowed. Default: true */
+	copying?: boolean;
+	/** Change the document, and insert, delete and rotate pages. Default: true */
+	modifying?: boolean;
+	/** Fill in form fields. Default: true */
+	form_filling?: boolean;
+	/** Add comments and annotations, and fill in form fields. Default: true */
+	annotating?: boolean;
+}
+
+/**
+ * Permission names, for validation
+ */
+export const pdfPermissions = [
+	"printing",
+	"copying",
+	"modifying",
+	"form_filling",
+	"annotating",
+] as const;
+
+/**
+ * PDF security configuration.
+ *
+ * @example
+ * ```yaml
+ * security:
+ *   user_password: open-sesame       # needed to open the document
+ *   owner_password: admin            # lifts the permissions
+ *   permissions:
+ *     copying: false
+ *     modifying: false
+ * ```
+ */
+export interface SecurityConfig {
+	/** Password to open the document. Default: none, it opens without */
+	user_password?: string;
+	/**
+	 * Password to lift the permissions. Default: a random one, so they
+	 * can't be lifted
+	 */
+	owner_password?: string;
+	/** What readers may do without the owner password */
+	permissions?: PdfPermissions;
+}
+
+/**
+ * Bits of the permission flags (ISO 32000-2 Table 22), numbered from 1
+ */
+const PERMISSION_BITS: Record<keyof PdfPermissions, number[]> = {
+	printing: [3, 12],
+	modifying: [4, 11],
+	copying: [5],
+	annotating: [6],
+	form_filling: [9],
+};
+
+/**
+ * Permission flags that are always set: the reserved bits 7, 8 and 13-32,
+ * and bit 10, text extraction for accessibility
+ */
+const FIXED_PERMISSIONS: number = 0xfffff0c0 | (1 << 9);
+
+/**
+ * Get the permission flags (P) of the encryption dictionary, a signed
+ * 32-bit number
+ */
+export function getPermissionFlags(permissions: PdfPermissions = {}): number {
+	let flags = FIXED_PERMISSIONS;
+	for (const name of pdfPermissions) {
+		if (permissions[name] === false) continue;
+		for (const bit of PERMISSION_BITS[name]) flags |= 1 << (bit - 1);
+	}
+	return flags | 0;
+}
+
+/**
+ * Encode a password as UTF-8, at most 127 bytes
+ */
+function encodePassword(password: string): Buffer {
+	return Buffer.from(password.normalize("NFKC"), "utf8").subarray(0, 127);
+}
+
+/**
+ * Hash a password with a salt (Algorithm 2.B): SHA-256, then at least 64
+ * rounds of AES-128 and SHA-256/384/512. For the owner password, userKey
+ * is the U entry.
+ */
+function hashPassword(password: Buffer, salt: Buffer, userKey: Buffer): Buffer {
+	const hashes = ["sha256", "sha384", "sha512"];
+	let key = createHash("sha256")
+		.update(Buffer.concat([password, salt, userKey]))
+		.digest();
+
+	for (let round = 1; ; round++) {
+		const block = Buffer.concat([password, key, userKey]);
+		const cipher = createCipheriv(
+			"aes-128-cbc",
+			key.subarray(0, 16),
+			key.subarray(16, 32),
+		).setAutoPadding(false);
+		const encrypted = Buffer.concat([
+			cipher.update(Buffer.concat(Array.from({ length: 64 }, () => block))),
+			cipher.final(),
+		]);
+		const sum = encrypted
+			.subarray(0, 16)
+			.reduce((total, byte) => total + byte, 0);
+		key = createHash(hashes[sum % 3] ?? "sha256")
+			.update(encrypted)
+			.digest();
+		if (round >= 64 && (encrypted.at(-1) ?? 0) <= round - 32) break;
+	}
+
+	return key.subarray(0, 32);
+}
+
+/**
+ * Encrypt a single AES block sequence without padding, as used for the
+ * key entries (UE, OE) and the permissions (Perms)
+ */
+function encryptKey(key: Buffer, data: Buffer, mode: "cbc" | "ecb"): Buffer {
+	const cipher = createCipheriv(
+		`aes-256-${mode}`,
+		key,
+		mode === "cbc" ? Buffer.alloc(16) : null,
+	).setAutoPadding(false);
+	return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * Build the encryption dictionary for a file key
+ */
+function buildEncryptDict(
+	pdfDoc: PDFDocument,
+	fileKey: Buffer,
+	config: SecurityConfig,
+): PDFDict {
+	const user = encodePassword(config.user_password ?? "");
+	const owner = encodePassword(
+		config.owner_password ?? randomBytes(16).toString("hex"),
+	);
+	const flags = getPermissionFlags(config.permissions);
+
+	// Validation salt and key salt of each password
+	const userSalts = randomBytes(16);
+	const u = Buffer.concat([
+		hashPassword(user, userSalts.subarray(0, 8), Buffer.alloc(0)),
+		userSalts,
+	]);
+	const ue = encryptKey(
+		hashPassword(user, userSalts.subarray(8), Buffer.alloc(0)),
+		fileKey,
+		"cbc",
+	);
+	const ownerSalts = randomBytes(16);
+	const o = Buffer.concat([
+		hashPassword(owner, ownerSalts.subarray(0, 8), u),
+		ownerSalts,
+	]);
+	const oe = encryptKey(
+		hashPassword(owner, ownerSalts.subarray(8), u),
+		fileKey,
+		"cbc",
+	);
+
+	// Permissions, encrypted so they can be checked for tampering
+	const perms = Buffer.alloc(16);
+	perms.writeInt32LE(flags, 0);
+	perms.fill(0xff, 4, 8);
+	perms.write("Tadb", 8, "latin1");
+	randomBytes(4).copy(perms, 12);
+
+	const hex = (bytes: Buffer): PDFHexString =>
+		PDFHexString.of(bytes.toString("hex"));
+	const context = pdfDoc.context;
+	return context.obj({
+		Filter: "Standard",
+		V: 5,
+		R: 6,
+		Length: 256,
+		CF: {
+			StdCF: { AuthEvent: "DocOpen", CFM: "AESV3", Length: 32 },
+		},
+		StmF: "StdCF",
+		StrF: "StdCF",
+		O: hex(o),
+		U: hex(u),
+		OE: hex(oe),
+		UE: hex(ue),
+		P: PDFNumber.of(flags),
+		Perms: hex(encryptKey(fileKey, perms, "ecb")),
+		EncryptMetadata: PDFBool.True,
+	});
+}
+
+/**
+ * Encrypt the strings in an object, in place where possible
+ */
+function encryptStrings(
+	object: PDFObject,
+	encrypt: (data: Uint8Array) => Buffer,
+): PDFObject {
+	if (object instanceof PDFString || object instanceof PDFHexString) {
+		return PDFHexString.of(encrypt(object.asBytes()).toString("hex"));
+	}
+	if (object instanceof PDFArray) {
+		for (let index = 0; index < object.size(); index++) {
+			object.set(index, encryptStrings(object.get(index), encrypt));
+		}
+	} else if (object instanceof PDFDict) {
+		for (const [key, value] of object.entries()) {
+			object.set(key, encryptStrings(value, encrypt));
+		}
+	}
+	return object;
+}
+
+/**
+ * Encrypt a PDF with passwords and permissions
+ */
+export async function encryptPdf(
+	pdfBuffer: Buffer,
+	config: SecurityConfig,
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+	const context = pdfDoc.context;
+	const fileKey = randomBytes(32);
+
+	// AES-256 in CBC mode, with a random IV in front of the data
+	const encrypt = (data: Uint8Array): Buffer => {
+		const iv = randomBytes(16);
+		const cipher = createCipheriv("aes-256-cbc", fileKey, iv);
+		return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+	};
+
+	// Every string and stream of the indirect objects is encrypted with the
+	// file key. Streams are encoded first, so their filters still apply
+	for (const [ref, object] of context.enumerateIndirectObjects()) {
+		if (object instanceof PDFStream) {
+			const contents = object.getContents();
+			encryptStrings(object.dict, encrypt);
+			context.assign(ref, PDFRawStream.of(object.dict, encrypt(contents)));
+		} else {
+			context.assign(ref, encryptStrings(object, encrypt));
+		}
+	}
+
+	context.trailerInfo.Encrypt = context.register(
+		buildEncryptDict(pdfDoc, fileKey, config),
+	);
+	if (!context.trailerInfo.ID) {
+		const id = PDFHexString.of(randomBytes(16).toString("hex"));
+		context.trailerInfo.ID = context.obj([id, id]);
+	}
+
+	// AES-256 needs PDF 1.7 with Adobe extension level 8, or PDF 2.0
+	context.header = PDFHeader.forVersion(1, 7);
+	pdfDoc.catalog.set(
+		PDFName.of("Extensions"),
+		context.obj({ ADBE: { BaseVersion: "1.7", ExtensionLevel: 8 } }),
+	);
+
+	// Object streams would be written without encryption, and form field
+	// appearances must not be added after it
+	const encryptedPdf = await pdfDoc.save({
+		useObjectStreams: false,
+		updateFieldAppearances: false,
+	});
+	return Buffer.from(encryptedPdf);
+}
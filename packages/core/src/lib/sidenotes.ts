@@ -0,0 +1,221 @@
+/**
+ * Sidenotes and margin notes for mdforge.
+ *
+ * Syntax:
+ *   Sidenote: ^[note text], a numbered note in the right margin
+ *   Margin note: an unnumbered note next to the following block
+ *
+ *     !!! margin
+ *         Note text, indented like an admonition.
+ *
+ * The margin is a column to the right of the text, enabled by the
+ * `sidenotes` body class. By default it is used with the tufte theme on
+ * pages that are wide enough; otherwise sidenotes become footnotes and
+ * margin notes are set in the text.
+ */
+
+import type { MarkedExtension, Token, Tokens } from "marked";
+
+/**
+ * How sidenotes are laid out: margin for the tufte theme on wide pages
+ * (auto), always in the margin, or always as footnotes
+ */
+export const sidenoteModes = ["auto", "margin", "footnotes"] as const;
+export type SidenoteMode = (typeof sidenoteModes)[number];
+
+/**
+ * Narrowest text width (in PDF points) with room for a margin column: 130mm
+ */
+export const MIN_MARGIN_WIDTH: number = (130 / 25.4) * 72;
+
+/**
+ * Regex to match a sidenote at the start of the source: ^[text], where the
+ * text may contain links
+ */
+const SIDENOTE_REGEX = /^\^\[((?:[^[\]\n]|\[[^[\]\n]*\])+)\]/;
+
+/**
+ * Regex to match the sidenotes in a line
+ */
+const SIDENOTES_REGEX = /\^\[((?:[^[\]\n]|\[[^[\]\n]*\])+)\]/g;
+
+/**
+ * Regex to match the start of a margin note
+ */
+const MARGIN_NOTE_REGEX = /^!{3}[ \t]+margin[ \t]*\n/i;
+
+/**
+ * Regex to match an opening or closing code fence
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+interface SidenoteToken extends Tokens.Generic {
+	type: "sidenote";
+	tokens: Token[];
+	number?: number;
+}
+
+/**
+ * Marked extension for ^[sidenotes] and !!! margin notes. Sidenotes are
+ * numbered in document order.
+ */
+export function sidenotes(): MarkedExtension {
+	let count = 0;
+
+	return {
+		extensions: [
+			{
+				name: "sidenote",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.indexOf("^[");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): SidenoteToken | undefined {
+					const match = SIDENOTE_REGEX.exec(src);
+					if (!match) return;
+					const text = (match[1] ?? "").trim();
+					if (!text) return;
+					return {
+						type: "sidenote",
+						raw: match[0],
+						tokens: this.lexer.inlineTokens(text),
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					const number = token.number as number;
+					return `<sup class="sidenote-ref">${number}</sup><span class="sidenote"><sup class="sidenote-number">${number}</sup> ${this.parser.parseInline(token.tokens ?? [])}</span>`;
+				},
+			},
+			{
+				name: "marginNote",
+				level: "block",
+				start(src: string): number | undefined {
+					const match = /^!{3}[ \t]+margin[ \t]*$/im.exec(src);
+					return match?.index;
+				},
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = MARGIN_NOTE_REGEX.exec(src);
+					if (!match) return;
+
+					// Content lines are indented (4 spaces or 1 tab) or empty
+					const lines = src.slice(match[0].length).split("\n");
+					const contentLines: string[] = [];
+					for (const line of lines) {
+						if (line !== "" && !/^(?: {4}|\t)/.test(line)) break;
+						contentLines.push(line.replace(/^(?: {4}|\t)/, ""));
+					}
+					while (contentLines.length > 0 && contentLines.at(-1) === "") {
+						contentLines.pop();
+					}
+
+					const raw =
+						match[0] +
+						lines.slice(0, contentLines.length).join("\n") +
+						(contentLines.length > 0 ? "\n" : "");
+					return {
+						type: "marginNote",
+						raw,
+						tokens: this.lexer.blockTokens(contentLines.join("\n"), []),
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					return `<aside class="marginnote">\n${this.parser.parse(token.tokens ?? [])}</aside>\n`;
+				},
+			},
+		],
+		walkTokens(token: Token): void {
+			if (token.type === "sidenote") {
+				(token as SidenoteToken).number = ++count;
+			}
+		},
+	};
+}
+
+/**
+ * Turn ^[sidenotes] into footnotes, for layouts without a margin: each
+ * sidenote becomes a [^sidenote-N] reference with its definition at the
+ * end. Code blocks and code spans are left alone.
+ */
+export function sidenotesToFootnotes(content: string): string {
+	const definitions: string[] = [];
+	const toFootnote = (_match: string, text: string): string => {
+		definitions.push(`[^sidenote-${definitions.length + 1}]: ${text.trim()}`);
+		return `[^sidenote-${definitions.length}]`;
+	};
+
+	let openFence: string | undefined;
+	const lines = content.split("\n").map((line) => {
+		const fence = FENCE_REGEX.exec(line)?.[1];
+		if (fence) {
+			if (!openFence) openFence = fence;
+			else if (fence[0] === openFence[0] && fence.length >= openFence.length) {
+				openFence = undefined;
+			}
+			return line;
+		}
+		if (openFence) return line;
+
+		return line
+			.split(/(`+[^`]*`+)/)
+			.map((part, index) =>
+				index % 2 === 0 ? part.replace(SIDENOTES_REGEX, toFootnote) : part,
+			)
+			.join("");
+	});
+
+	if (definitions.length === 0) return content;
+	return `${lines.join("\n")}\n\n${definitions.join("\n\n")}\n`;
+}
+
+/**
+ * CSS for sidenotes and margin notes: a column to the right of the text
+ * with the `sidenotes` body class, margin notes set in the text without
+ */
+export const sidenotesCss = `
+.marginnote {
+  margin: 1em 0;
+  padding-left: 1em;
+  border-left: 2px solid var(--color-border, #ccc);
+  font-size: 0.85em;
+  color: var(--color-text-muted, #555);
+}
+
+.marginnote > :first-child {
+  margin-top: 0;
+}
+
+.marginnote > :last-child {
+  margin-bottom: 0;
+}
+
+body.sidenotes > :is(p, ul, ol, dl, blockquote, pre, table, figure, hr, .admonition, h1, h2, h3, h4, h5, h6) {
+  width: 64%;
+  box-sizing: border-box;
+}
+
+body.sidenotes .sidenote,
+body.sidenotes .marginnote {
+  float: right;
+  clear: right;
+  width: 50%;
+  margin: 0.3em -56% 0.5em 0;
+  padding: 0;
+  border: none;
+  font-size: 0.8em;
+  line-height: 1.3;
+  color: var(--color-text-muted, #555);
+  text-indent: 0;
+}
+
+body.sidenotes > .marginnote {
+  width: 32%;
+  margin-right: 0;
+}
+
+.sidenote-ref,
+.sidenote-number {
+  font-size: 0.75em;
+  line-height: 0;
+}
+`;
@@ -27,8 +27,8 @@ function decodeHtmlEntities(html: string): string {
  */
 export function cleanForSlug(text: string): string {
 	const cleaned = decodeHtmlEntities(text)
-		.trim()
-		.replace(/<[!/a-z].*?>/gi, "");
+		.replace(/<[!/a-z].*?>/gi, "")
+		.trim();
 	// Transliterate Unicode to ASCII (e.g., å→a, ø→o, ñ→n)
 	return transliterate(cleaned);
 }
@@ -0,0 +1,47 @@
+/**
+ * Source lines for mdforge.
+ *
+ * Warnings about the markdown name the line they are about. Front-matter,
+ * @include and book chapters move lines around, so every line of the
+ * markdown that is converted keeps the file and line it comes from.
+ */
+
+import { basename } from "node:path";
+
+/**
+ * Where a line of the converted markdown comes from
+ */
+export interface SourceLine {
+	/** Line number in its file, from 1 */
+	line: number;
+	/** Included file or book chapter. Undefined for the document itself */
+	file?: string;
+}
+
+/**
+ * Source lines of a text, numbered from `first` (the line after the
+ * front-matter)
+ */
+export function getSourceLines(
+	content: string,
+	file?: string,
+	first: number = 1,
+): SourceLine[] {
+	return content.split("\n").map((_, index) => ({ line: first + index, file }));
+}
+
+/**
+ * Location of a line of the converted markdown (index from 0) for
+ * warnings: "line 12", or "line 3 of intro.md" in an included file or
+ * book chapter. Without source lines, the line in the text itself.
+ */
+export function formatSourceLine(
+	lines: SourceLine[] | undefined,
+	index: number,
+): string {
+	const source = lines?.[index];
+	if (!source) return `line ${index + 1}`;
+	return source.file
+		? `line ${source.line} of ${basename(source.file)}`
+		: `line ${source.line}`;
+}
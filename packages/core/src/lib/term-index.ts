@@ -0,0 +1,227 @@
+/**
+ * Back-of-book index for mdforge.
+ *
+ * Syntax:
+ *   Term: {^term} or {^term|Sub-entry}, an invisible anchor where the
+ *   term is discussed
+ *   Index: <!-- index --> inserts the alphabetized index, grouped by
+ *   first letter, with the pages of every occurrence of each term
+ *
+ * Page numbers use page references, see page-refs.ts.
+ */
+
+import type { MarkedExtension, Token, Tokens } from "marked";
+import { pageRefHtml } from "./page-refs.js";
+import { escapeHtml } from "./util.js";
+
+/**
+ * Regex to match an index term: {^term} or {^term|Sub-entry}
+ */
+export const INDEX_TERM_REGEX: RegExp = /\{\^([^{}|\n]+)(?:\|([^{}\n]+))?\}/g;
+
+/**
+ * Regex to match an index term at the start of the source
+ */
+const TERM_REGEX = /^\{\^([^{}|\n]+)(?:\|([^{}\n]+))?\}/;
+
+/**
+ * Regex to match an index marker
+ */
+const INDEX_MARKER_REGEX = /^ {0,3}<!--\s*index\s*-->[ \t]*(?:\n+|$)/;
+
+/**
+ * Regex to match the page list of an index entry
+ */
+const INDEX_PAGES_REGEX =
+	/<span class="index-pages">((?:<a href="[^"]+"><span [^>]*>[^<]*<\/span><\/a>(?:, )?)*)<\/span>/g;
+
+/**
+ * Regex to match a filled page reference link in an index entry
+ */
+const INDEX_LINK_REGEX =
+	/<a href="#[^"]+"><span class="page-ref" data-target="#[^"]+">([^<]*)<\/span><\/a>/g;
+
+interface IndexTermToken extends Tokens.Generic {
+	type: "indexTerm";
+	term: string;
+	sub?: string;
+	id?: string;
+}
+
+/**
+ * An index entry: the anchors of a term, and of its sub-entries
+ */
+interface IndexEntry {
+	anchors: string[];
+	subs: Map<string, string[]>;
+}
+
+/**
+ * Letter a term is grouped under: its first letter without accents, or
+ * "#" for symbols and numbers
+ */
+function groupLetter(term: string): string {
+	const letter = term.normalize("NFD").charAt(0).toUpperCase();
+	return /\p{L}/u.test(letter) ? letter : "#";
+}
+
+/**
+ * Render the page references of a term: ", 3, 12"
+ */
+function renderPages(anchors: string[]): string {
+	if (anchors.length === 0) return "";
+	const links = anchors.map((id) => `<a href="#${id}">${pageRefHtml(id)}</a>`);
+	return `, <span class="index-pages">${links.join(", ")}</span>`;
+}
+
+/**
+ * Marked extension for index terms and the <!-- index --> marker.
+ * Terms are collected before rendering, so the index can be placed
+ * anywhere in the document.
+ */
+export function termIndex(): MarkedExtension {
+	const entries = new Map<string, IndexEntry>();
+	let count = 0;
+	const collator = new Intl.Collator(undefined, {
+		sensitivity: "base",
+		numeric: true,
+	});
+
+	const renderIndex = (): string => {
+		const terms = [...entries.keys()].sort(collator.compare);
+		const groups = new Map<string, string[]>();
+
+		for (const term of terms) {
+			const entry = entries.get(term) as IndexEntry;
+			const subs = [...entry.subs.keys()]
+				.sort(collator.compare)
+				.map(
+					(sub) =>
+						`<li><span class="index-term">${escapeHtml(sub)}</span>${renderPages(entry.subs.get(sub) ?? [])}</li>`,
+				);
+			const subList =
+				subs.length > 0 ? `\n<ul>\n${subs.join("\n")}\n</ul>\n` : "";
+			const item = `<li><span class="index-term">${escapeHtml(term)}</span>${renderPages(entry.anchors)}${subList}</li>`;
+
+			const letter = groupLetter(term);
+			groups.set(letter, [...(groups.get(letter) ?? []), item]);
+		}
+
+		const html = [...groups].map(
+			([letter, items]) =>
+				`<div class="index-group">\n<div class="index-letter">${letter}</div>\n<ul>\n${items.join("\n")}\n</ul>\n</div>`,
+		);
+		return `<div class="index">\n${html.join("\n")}\n</div>\n`;
+	};
+
+	return {
+		extensions: [
+			{
+				name: "indexTerm",
+				level: "inline",
+				start(src: string): number | undefined {
+					const index = src.indexOf("{^");
+					return index === -1 ? undefined : index;
+				},
+				tokenizer(src: string): IndexTermToken | undefined {
+					const match = TERM_REGEX.exec(src);
+					if (!match) return;
+					const term = (match[1] ?? "").trim();
+					if (!term) return;
+					return {
+						type: "indexTerm",
+						raw: match[0],
+						term,
+						sub: match[2]?.trim() || undefined,
+					};
+				},
+				renderer(token: Tokens.Generic): string {
+					return `<a id="${token.id}" class="index-anchor"></a>`;
+				},
+			},
+			{
+				name: "indexMarker",
+				level: "block",
+				tokenizer(src: string): Tokens.Generic | undefined {
+					const match = INDEX_MARKER_REGEX.exec(src);
+					if (!match) return;
+					return { type: "indexMarker", raw: match[0] };
+				},
+				renderer(): string {
+					return renderIndex();
+				},
+			},
+		],
+		walkTokens(token: Token): void {
+			if (token.type !== "indexTerm") return;
+			const term = token as IndexTermToken;
+			term.id = `idx-${++count}`;
+
+			const entry: IndexEntry = entries.get(term.term) ?? {
+				anchors: [],
+				subs: new Map(),
+			};
+			entries.set(term.term, entry);
+			if (term.sub) {
+				entry.subs.set(term.sub, [
+					...(entry.subs.get(term.sub) ?? []),
+					term.id,
+				]);
+			} else {
+				entry.anchors.push(term.id);
+			}
+		},
+	};
+}
+
+/**
+ * Merge the page references of an index entry that land on the same page,
+ * after the page numbers have been filled in: "4, 4, 9" → "4, 9"
+ */
+export function mergeIndexPages(html: string): string {
+	return html.replace(INDEX_PAGES_REGEX, (_match, links: string) => {
+		const seen = new Set<string>();
+		const unique = Array.from(links.matchAll(INDEX_LINK_REGEX))
+			.filter(([, page]) => {
+				if (page === undefined || seen.has(page)) return false;
+				seen.add(page);
+				return true;
+			})
+			.map(([link]) => link);
+		return `<span class="index-pages">${unique.join(", ")}</span>`;
+	});
+}
+
+/**
+ * CSS for the index: two columns, letters above their groups
+ */
+export const termIndexCss = `
+.index {
+  columns: 2;
+  column-gap: 2em;
+}
+
+.index ul {
+  list-style: none;
+  margin: 0;
+  padding: 0;
+}
+
+.index ul ul {
+  padding-left: 1.5em;
+}
+
+.index-group {
+  margin-bottom: 1em;
+}
+
+.index-letter {
+  font-weight: 600;
+  margin-bottom: 0.25em;
+  break-after: avoid;
+}
+
+.index-pages a {
+  text-decoration: none;
+}
+`;
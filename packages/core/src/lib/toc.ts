@@ -8,13 +8,25 @@
 
 import GithubSlugger from "github-slugger";
 import { marked, type Token, type Tokens } from "marked";
+import { pageRefHtml } from "./page-refs.js";
 import { cleanForSlug } from "./slugger.js";
+import { INDEX_TERM_REGEX } from "./term-index.js";
+
+/**
+ * What fills the space between a TOC entry and its page number
+ */
+export const tocLeaders = ["dots", "none"] as const;
+export type TocLeader = (typeof tocLeaders)[number];
 
 export interface TOCOptions {
 	/** Skip the first h1 heading in the TOC (usually the document title). Default: false */
 	skip_first_h1?: boolean;
 	/** Maximum heading depth to include (1-6). Default: 6 */
 	maxdepth?: number;
+	/** Show the page number of each entry, right-aligned. Default: false */
+	page_numbers?: boolean;
+	/** Leader between entry and page number. Default: "dots" */
+	leader?: TocLeader;
 }
 
 export interface HeadingToken {
@@ -82,9 +94,12 @@ class MarkedAdapter {
 			return;
 		}
 
-		const text = this.getTokenText(token);
+		// Index terms in headings are invisible anchors
+		const text = this.getTokenText(token).replace(INDEX_TERM_REGEX, "").trim();
 		// Use same slug logic as gfmHeadingId to ensure links match
-		const slug = this.slugger.slug(cleanForSlug(headingToken.text));
+		const slug = this.slugger.slug(
+			cleanForSlug(headingToken.text.replace(INDEX_TERM_REGEX, "")),
+		);
 
 		const heading: HeadingToken = {
 			content: text,
@@ -145,7 +160,11 @@ class MarkedAdapter {
 			const indentLevel = Math.max(0, heading.lvl - highestLevel);
 			const indentation = "  ".repeat(indentLevel);
 
-			lines.push(`${indentation}- [${heading.content}](#${heading.slug})`);
+			// With page numbers: text, leader and page number in the link
+			const content = this.options.page_numbers
+				? `<span class="toc-text">${heading.content}</span><span class="toc-leader"></span>${pageRefHtml(heading.slug)}`
+				: heading.content;
+			lines.push(`${indentation}- [${content}](#${heading.slug})`);
 		}
 
 		return lines.join("\n");
@@ -203,7 +222,12 @@ export function insertToc(str: string, options: TOCOptions = {}): string {
 	}
 
 	const last = sections[sections.length - 1] as string;
-	const tocContent = toc(last, options).content;
+	let tocContent = toc(last, options).content;
+
+	if (options.page_numbers) {
+		const leader = options.leader ?? "dots";
+		tocContent = `<div class="toc toc-page-numbers toc-leader-${leader}">\n\n${tocContent}\n\n</div>`;
+	}
 
 	if (sections.length === 3) {
 		// Both markers present: <!-- toc --> content <!-- tocstop -->
@@ -216,3 +240,30 @@ export function insertToc(str: string, options: TOCOptions = {}): string {
 
 	return sections.join("\n\n") + newlines;
 }
+
+/**
+ * CSS for TOC page numbers. The leader takes the space between the entry
+ * and its number; dots are clipped to fit.
+ */
+export const tocPageNumbersCss = `
+.toc-page-numbers a {
+  display: flex;
+  align-items: baseline;
+  text-decoration: none;
+}
+
+.toc-page-numbers .toc-leader {
+  flex: 1;
+  min-width: 1em;
+  overflow: hidden;
+  white-space: nowrap;
+}
+
+.toc-leader-dots .toc-leader::before {
+  content: "${" .".repeat(100)}";
+}
+
+.toc-page-numbers .page-ref {
+  padding-left: 0.25em;
+}
+`;
@@ -56,29 +56,97 @@ export const getMarginObject = (margin: string): PDFOptions["margin"] => {
 					: undefined;
 };
 
+/**
+ * Convert a Puppeteer length (a number in px, or a string with px, in, cm,
+ * mm or pt) to PDF points.
+ */
+export const lengthToPoints = (length: string | number | undefined): number => {
+	if (length === undefined) return 0;
+	if (typeof length === "number") return length * 0.75;
+
+	const match = /^\s*([\d.]+)\s*(px|in|cm|mm|pt)?\s*$/i.exec(length);
+	const value = Number(match?.[1] ?? 0);
+	const unit = match?.[2]?.toLowerCase() ?? "px";
+	const pointsPerUnit: Record<string, number> = {
+		px: 0.75,
+		in: 72,
+		cm: 72 / 2.54,
+		mm: 72 / 25.4,
+		pt: 1,
+	};
+	return value * (pointsPerUnit[unit] ?? 0.75);
+};
+
+/**
+ * Paper sizes of Puppeteer's PDF formats, in inches: width, height
+ */
+const PAPER_FORMATS: Record<string, [number, number]> = {
+	letter: [8.5, 11],
+	legal: [8.5, 14],
+	tabloid: [11, 17],
+	ledger: [17, 11],
+	a0: [33.1102, 46.811],
+	a1: [23.3858, 33.1102],
+	a2: [16.5354, 23.3858],
+	a3: [11.6929, 16.5354],
+	a4: [8.2677, 11.6929],
+	a5: [5.8268, 8.2677],
+	a6: [4.1339, 5.8268],
+};
+
+/**
+ * Get the page size of Puppeteer PDF options in PDF points. Like Puppeteer,
+ * the format takes priority over width and height, and the default is
+ * Letter. Landscape swaps width and height.
+ */
+export const getPageSize = (
+	options: PDFOptions,
+): { width: number; height: number } => {
+	const [formatWidth, formatHeight] = PAPER_FORMATS[
+		String(options.format ?? "letter").toLowerCase()
+	] ?? [8.5, 11];
+	// A null format (from YAML) is no format
+	const useFormat = Boolean(options.format);
+	const width =
+		useFormat || options.width === undefined
+			? formatWidth * 72
+			: lengthToPoints(options.width);
+	const height =
+		useFormat || options.height === undefined
+			? formatHeight * 72
+			: lengthToPoints(options.height);
+	return options.landscape
+		? { width: height, height: width }
+		: { width, height };
+};
+
 /**
  * Recursively resolve @filename references in config values.
  * References are resolved relative to the baseDir.
+ * The optional onRead callback receives the path of every file read.
  */
 export async function resolveFileRefs<T>(
 	value: T,
 	baseDir: string,
+	onRead?: (path: string) => void,
 ): Promise<T> {
 	if (typeof value === "string" && value.startsWith("@")) {
 		const filePath = resolve(baseDir, value.slice(1));
-		return (await fs.readFile(filePath, "utf-8")) as T;
+		const content = await fs.readFile(filePath, "utf-8");
+		onRead?.(filePath);
+		return content as T;
 	}
 
 	if (Array.isArray(value)) {
 		return Promise.all(
-			value.map((item) => resolveFileRefs(item, baseDir)),
+			value.map((item) => resolveFileRefs(item, baseDir, onRead)),
 		) as Promise<T>;
 	}
 
 	if (value !== null && typeof value === "object") {
 		const result: Record<string, unknown> = {};
 		for (const [key, val] of Object.entries(value)) {
-			result[key] = await resolveFileRefs(val, baseDir);
+			result[key] = await resolveFileRefs(val, baseDir, onRead);
 		}
 		return result as T;
 	}
@@ -86,6 +154,17 @@ export async function resolveFileRefs<T>(
 	return value;
 }
 
+/**
+ * Escape text for use in HTML.
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
 /**
  * Extract the first heading (h1 or h2) from markdown content.
  */
@@ -96,19 +175,23 @@ export function extractFirstHeading(md: string): string | null {
 
 /**
  * Parse YAML front-matter from markdown content.
+ * `line` is the line of the file the content starts on.
  */
 export function parseFrontMatter(content: string): {
 	data: Record<string, unknown>;
 	content: string;
+	line: number;
 } {
 	const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
-	if (!match) return { data: {}, content };
+	if (!match) return { data: {}, content, line: 1 };
 	try {
+		const body = match[2] ?? "";
 		return {
 			data: YAML.parse(match[1] ?? "") || {},
-			content: match[2] ?? "",
+			content: body,
+			line: content.slice(0, content.length - body.length).split("\n").length,
 		};
 	} catch {
-		return { data: {}, content };
+		return { data: {}, content, line: 1 };
 	}
 }
@@ -1,5 +1,17 @@
+import { citationStyles } from "./bibliography.js";
+import { bookPageBreaks } from "./book.js";
+import { captionNumberings } from "./captions.js";
 import { type Config, type Theme, themes } from "./config.js";
+import { coverTemplates } from "./cover.js";
 import { fontPairings } from "./fonts.js";
+import { footnoteNumberings, footnotePlacements } from "./footnotes.js";
+import { mathNumberings } from "./math.js";
+import { outlineExcludes } from "./outline.js";
+import { pdfStandards } from "./pdf-metadata.js";
+import { pdfPermissions } from "./security.js";
+import { sidenoteModes } from "./sidenotes.js";
+import { tocLeaders } from "./toc.js";
+import { watermarkPositions } from "./watermark.js";
 
 interface ValidationError {
 	path: string;
@@ -28,15 +40,29 @@ const CONFIG_SCHEMA: Record<
 	pdf_options: { type: "object" },
 	launch_options: { type: "object" },
 	toc_options: { type: "object" },
+	book: { type: "object" },
 	header: { type: "string|object" },
 	footer: { type: "string|object" },
+	mirror_margins: { type: "object" },
 	metadata: { type: "object" },
+	pdf_standard: { type: "string", values: pdfStandards },
+	check_accessibility: { type: "boolean" },
 	fonts: { type: "string|object" },
 	font_scale: { type: "number" },
 	templates: { type: "object" },
 	page_numbers: { type: "object" },
 	heading_numbers: { type: "object" },
+	math: { type: "boolean|object" },
+	captions: { type: "object" },
+	glossary: { type: "string|object" },
+	footnotes: { type: "string|object" },
+	sidenotes: { type: "string", values: sidenoteModes },
+	bibliography: { type: "string|object" },
+	cover: { type: "boolean|object" },
+	watermark: { type: "string|object" },
 	fillable: { type: "boolean" },
+	security: { type: "object" },
+	outline: { type: "boolean|object" },
 };
 
 /**
@@ -176,16 +202,47 @@ export function validateConfig(config: Partial<Config>): ValidationError[] {
 				"right",
 				"background",
 				"firstPage",
+				"odd",
+				"even",
 			]);
 			for (const key of Object.keys(value)) {
 				if (!validKeys.has(key)) {
 					errors.push({
 						path: `${field}.${key}`,
-						message: `Unknown ${field} key "${key}". Use: left, center, right`,
+						message: `Unknown ${field} key "${key}". Use: left, center, right, odd, even`,
 						value: value[key as keyof typeof value],
 					});
 				}
 			}
+
+			// Odd/even pages have their own columns
+			for (const side of ["odd", "even"] as const) {
+				const columns = value[side];
+				if (!columns || typeof columns !== "object") continue;
+				for (const key of Object.keys(columns)) {
+					if (key !== "left" && key !== "center" && key !== "right") {
+						errors.push({
+							path: `${field}.${side}.${key}`,
+							message: `Unknown ${field}.${side} key "${key}". Use: left, center, right`,
+							value: columns[key as keyof typeof columns],
+						});
+					}
+				}
+			}
+		}
+	}
+
+	// Validate mirror_margins structure
+	if (config.mirror_margins && typeof config.mirror_margins === "object") {
+		for (const key of Object.keys(config.mirror_margins)) {
+			if (key !== "inside" && key !== "outside" && key !== "gutter") {
+				errors.push({
+					path: `mirror_margins.${key}`,
+					message: `Unknown mirror_margins key "${key}". Use: inside, outside, gutter`,
+					value:
+						config.mirror_margins[key as keyof typeof config.mirror_margins],
+				});
+			}
 		}
 	}
 
@@ -198,12 +255,13 @@ export function validateConfig(config: Partial<Config>): ValidationError[] {
 			"keywords",
 			"creator",
 			"producer",
+			"language",
 		]);
 		for (const key of Object.keys(config.metadata)) {
 			if (!validMetadataKeys.has(key)) {
 				errors.push({
 					path: `metadata.${key}`,
-					message: `Unknown metadata key "${key}". Use: title, author, subject, keywords, creator, producer`,
+					message: `Unknown metadata key "${key}". Use: title, author, subject, keywords, creator, producer, language`,
 					value: config.metadata[key as keyof typeof config.metadata],
 				});
 			}
@@ -219,6 +277,18 @@ export function validateConfig(config: Partial<Config>): ValidationError[] {
 				value: config.metadata.keywords,
 			});
 		}
+		// Validate language is a language tag like "en" or "pt-BR"
+		if (
+			config.metadata.language !== undefined &&
+			!/^[a-z]{2,3}(-[a-z\d]{1,8})*$/i.test(String(config.metadata.language))
+		) {
+			errors.push({
+				path: "metadata.language",
+				message:
+					'metadata.language should be a language tag, e.g. "en" or "pt-BR"',
+				value: config.metadata.language,
+			});
+		}
 	}
 
 	// Validate font_scale is positive
@@ -319,6 +389,49 @@ export function validateConfig(config: Partial<Config>): ValidationError[] {
 		}
 	}
 
+	// Validate toc_options structure
+	if (config.toc_options && typeof config.toc_options === "object") {
+		const validTocKeys = new Set([
+			"skip_first_h1",
+			"maxdepth",
+			"page_numbers",
+			"leader",
+		]);
+		for (const key of Object.keys(config.toc_options)) {
+			if (!validTocKeys.has(key)) {
+				errors.push({
+					path: `toc_options.${key}`,
+					message: `Unknown toc_options key "${key}". Use: ${[...validTocKeys].join(", ")}`,
+					value: config.toc_options[key as keyof typeof config.toc_options],
+				});
+			}
+		}
+
+		// Validate page_numbers is a boolean
+		if (
+			config.toc_options.page_numbers !== undefined &&
+			typeof config.toc_options.page_numbers !== "boolean"
+		) {
+			errors.push({
+				path: "toc_options.page_numbers",
+				message: "page_numbers must be a boolean",
+				value: config.toc_options.page_numbers,
+			});
+		}
+
+		// Validate leader value
+		if (
+			config.toc_options.leader !== undefined &&
+			!tocLeaders.includes(config.toc_options.leader)
+		) {
+			errors.push({
+				path: "toc_options.leader",
+				message: `Invalid leader "${config.toc_options.leader}". Use: ${tocLeaders.join(", ")}`,
+				value: config.toc_options.leader,
+			});
+		}
+	}
+
 	// Validate heading_numbers structure
 	if (config.heading_numbers && typeof config.heading_numbers === "object") {
 		const validHeadingNumbersKeys = new Set([
@@ -414,6 +527,472 @@ export function validateConfig(config: Partial<Config>): ValidationError[] {
 		}
 	}
 
+	// Validate book structure
+	if (config.book && typeof config.book === "object") {
+		const validBookKeys = new Set(["files", "page_break"]);
+		for (const key of Object.keys(config.book)) {
+			if (!validBookKeys.has(key)) {
+				errors.push({
+					path: `book.${key}`,
+					message: `Unknown book key "${key}". Use: files, page_break`,
+					value: config.book[key as keyof typeof config.book],
+				});
+			}
+		}
+
+		// Validate files is an array of strings
+		if (
+			config.book.files !== undefined &&
+			(!Array.isArray(config.book.files) ||
+				config.book.files.some((file) => typeof file !== "string"))
+		) {
+			errors.push({
+				path: "book.files",
+				message: "book.files should be an array of file paths or globs",
+				value: config.book.files,
+			});
+		}
+
+		// Validate page_break value
+		if (
+			config.book.page_break !== undefined &&
+			!bookPageBreaks.includes(config.book.page_break)
+		) {
+			errors.push({
+				path: "book.page_break",
+				message: `Invalid page_break "${config.book.page_break}". Use: ${bookPageBreaks.join(", ")}`,
+				value: config.book.page_break,
+			});
+		}
+	}
+
+	// Validate math structure
+	if (config.math && typeof config.math === "object") {
+		for (const key of Object.keys(config.math)) {
+			if (key !== "numbering") {
+				errors.push({
+					path: `math.${key}`,
+					message: `Unknown math key "${key}". Use: numbering`,
+					value: config.math[key as keyof typeof config.math],
+				});
+			}
+		}
+
+		// Validate numbering value
+		if (
+			config.math.numbering !== undefined &&
+			!mathNumberings.includes(config.math.numbering)
+		) {
+			errors.push({
+				path: "math.numbering",
+				message: `Invalid numbering "${config.math.numbering}". Use: ${mathNumberings.join(", ")}`,
+				value: config.math.numbering,
+			});
+		}
+	}
+
+	// Validate captions structure
+	if (config.captions && typeof config.captions === "object") {
+		for (const key of Object.keys(config.captions)) {
+			if (key !== "numbering") {
+				errors.push({
+					path: `captions.${key}`,
+					message: `Unknown captions key "${key}". Use: numbering`,
+					value: config.captions[key as keyof typeof config.captions],
+				});
+			}
+		}
+
+		// Validate numbering value
+		if (
+			config.captions.numbering !== undefined &&
+			!captionNumberings.includes(config.captions.numbering)
+		) {
+			errors.push({
+				path: "captions.numbering",
+				message: `Invalid numbering "${config.captions.numbering}". Use: ${captionNumberings.join(", ")}`,
+				value: config.captions.numbering,
+			});
+		}
+	}
+
+	// Validate glossary structure
+	if (config.glossary && typeof config.glossary === "object") {
+		for (const key of Object.keys(config.glossary)) {
+			if (key !== "entries" && key !== "drop_unused") {
+				errors.push({
+					path: `glossary.${key}`,
+					message: `Unknown glossary key "${key}". Use: entries, drop_unused`,
+					value: config.glossary[key as keyof typeof config.glossary],
+				});
+			}
+		}
+
+		if (
+			config.glossary.drop_unused !== undefined &&
+			typeof config.glossary.drop_unused !== "boolean"
+		) {
+			errors.push({
+				path: "glossary.drop_unused",
+				message: "drop_unused must be a boolean",
+				value: config.glossary.drop_unused,
+			});
+		}
+	}
+
+	// Validate footnotes structure
+	const footnotes =
+		typeof config.footnotes === "string"
+			? { placement: config.footnotes }
+			: config.footnotes;
+	if (footnotes && typeof footnotes === "object") {
+		for (const key of Object.keys(footnotes)) {
+			if (key !== "placement" && key !== "numbering") {
+				errors.push({
+					path: `footnotes.${key}`,
+					message: `Unknown footnotes key "${key}". Use: placement, numbering`,
+					value: footnotes[key as keyof typeof footnotes],
+				});
+			}
+		}
+
+		if (
+			footnotes.placement !== undefined &&
+			!footnotePlacements.includes(footnotes.placement)
+		) {
+			errors.push({
+				path:
+					typeof config.footnotes === "string"
+						? "footnotes"
+						: "footnotes.placement",
+				message: `Invalid placement "${footnotes.placement}". Use: ${footnotePlacements.join(", ")}`,
+				value: footnotes.placement,
+			});
+		}
+
+		if (
+			"numbering" in footnotes &&
+			footnotes.numbering !== undefined &&
+			!footnoteNumberings.includes(footnotes.numbering)
+		) {
+			errors.push({
+				path: "footnotes.numbering",
+				message: `Invalid numbering "${footnotes.numbering}". Use: ${footnoteNumberings.join(", ")}`,
+				value: footnotes.numbering,
+			});
+		}
+	}
+
+	// Validate bibliography structure
+	if (config.bibliography && typeof config.bibliography === "object") {
+		for (const key of Object.keys(config.bibliography)) {
+			if (key !== "file" && key !== "style") {
+				errors.push({
+					path: `bibliography.${key}`,
+					message: `Unknown bibliography key "${key}". Use: file, style`,
+					value: config.bibliography[key as keyof typeof config.bibliography],
+				});
+			}
+		}
+
+		if (typeof config.bibliography.file !== "string") {
+			errors.push({
+				path: "bibliography.file",
+				message: "bibliography needs a BibTeX or CSL-JSON file",
+				value: config.bibliography.file,
+			});
+		}
+
+		// Validate style value
+		if (
+			config.bibliography.style !== undefined &&
+			!citationStyles.includes(config.bibliography.style)
+		) {
+			errors.push({
+				path: "bibliography.style",
+				message: `Invalid style "${config.bibliography.style}". Use: ${citationStyles.join(", ")}`,
+				value: config.bibliography.style,
+			});
+		}
+	}
+
+	// Validate cover structure
+	if (config.cover && typeof config.cover === "object") {
+		const validCoverKeys = new Set([
+			"title",
+			"subtitle",
+			"authors",
+			"date",
+			"version",
+			"logo",
+			"organization",
+			"background",
+			"template",
+		]);
+		for (const key of Object.keys(config.cover)) {
+			if (!validCoverKeys.has(key)) {
+				errors.push({
+					path: `cover.${key}`,
+					message: `Unknown cover key "${key}". Use: ${[...validCoverKeys].join(", ")}`,
+					value: config.cover[key as keyof typeof config.cover],
+				});
+			}
+		}
+
+		// Validate template value
+		if (
+			config.cover.template !== undefined &&
+			!coverTemplates.includes(config.cover.template)
+		) {
+			errors.push({
+				path: "cover.template",
+				message: `Invalid template "${config.cover.template}". Use: ${coverTemplates.join(", ")}`,
+				value: config.cover.template,
+			});
+		}
+	}
+
+	// Validate watermark structure
+	if (config.watermark && typeof config.watermark === "object") {
+		const validWatermarkKeys = new Set([
+			"text",
+			"image",
+			"opacity",
+			"angle",
+			"color",
+			"size",
+			"position",
+			"pages",
+		]);
+		for (const key of Object.keys(config.watermark)) {
+			if (!validWatermarkKeys.has(key)) {
+				errors.push({
+					path: `watermark.${key}`,
+					message: `Unknown watermark key "${key}". Use: ${[...validWatermarkKeys].join(", ")}`,
+					value: config.watermark[key as keyof typeof config.watermark],
+				});
+			}
+		}
+
+		if (!(config.watermark.text || config.watermark.image)) {
+			errors.push({
+				path: "watermark",
+				message: "watermark needs either text or image",
+			});
+		}
+
+		// Only PNG and JPEG can be embedded by pdf-lib
+		if (
+			config.watermark.image !== undefined &&
+			!/\.(?:png|jpe?g)$/i.test(config.watermark.image)
+		) {
+			errors.push({
+				path: "watermark.image",
+				message: "watermark.image must be a PNG or JPEG file",
+				value: config.watermark.image,
+			});
+		}
+
+		// Validate opacity is between 0 and 1
+		if (
+			config.watermark.opacity !== undefined &&
+			(typeof config.watermark.opacity !== "number" ||
+				config.watermark.opacity < 0 ||
+				config.watermark.opacity > 1)
+		) {
+			errors.push({
+				path: "watermark.opacity",
+				message: "opacity must be a number between 0 and 1",
+				value: config.watermark.opacity,
+			});
+		}
+
+		// Validate position value
+		if (
+			config.watermark.position !== undefined &&
+			!watermarkPositions.includes(config.watermark.position)
+		) {
+			errors.push({
+				path: "watermark.position",
+				message: `Invalid position "${config.watermark.position}". Use: ${watermarkPositions.join(", ")}`,
+				value: config.watermark.position,
+			});
+		}
+
+		// Reversed page ranges ("5-2") select no pages
+		for (const range of config.watermark.pages?.split(",") ?? []) {
+			const match = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(range);
+			if (match && Number(match[1]) > Number(match[2])) {
+				errors.push({
+					path: "watermark.pages",
+					message: `Page range "${range.trim()}" is reversed and selects no pages, use "${match[2]}-${match[1]}"`,
+					value: config.watermark.pages,
+				});
+			}
+		}
+	}
+
+	// Validate security structure. Passwords are left out of the messages
+	if (config.security && typeof config.security === "object") {
+		const validSecurityKeys = new Set([
+			"user_password",
+			"owner_password",
+			"permissions",
+		]);
+		for (const key of Object.keys(config.security)) {
+			if (!validSecurityKeys.has(key)) {
+				errors.push({
+					path: `security.${key}`,
+					message: `Unknown security key "${key}". Use: ${[...validSecurityKeys].join(", ")}`,
+				});
+			}
+		}
+
+		for (const key of ["user_password", "owner_password"] as const) {
+			const password = config.security[key];
+			if (password !== undefined && typeof password !== "string") {
+				errors.push({
+					path: `security.${key}`,
+					message: `${key} should be a string`,
+				});
+			}
+		}
+
+		// The user password opens the document with all permissions
+		if (
+			config.security.owner_password !== undefined &&
+			config.security.owner_password === config.security.user_password
+		) {
+			errors.push({
+				path: "security.owner_password",
+				message:
+					"owner_password is the same as user_password, which lifts the permissions",
+			});
+		}
+
+		const permissions = config.security.permissions;
+		if (permissions && typeof permissions === "object") {
+			for (const [key, value] of Object.entries(permissions)) {
+				if (!(pdfPermissions as readonly string[]).includes(key)) {
+					errors.push({
+						path: `security.permissions.${key}`,
+						message: `Unknown permission "${key}". Use: ${pdfPermissions.join(", ")}`,
+						value,
+					});
+				} else if (typeof value !== "boolean") {
+					errors.push({
+						path: `security.permissions.${key}`,
+						message: `${key} should be true or false`,
+						value,
+					});
+				}
+			}
+		}
+	}
+
+	// Validate outline structure
+	if (config.outline && typeof config.outline === "object") {
+		const outline = config.outline;
+		const validOutlineKeys = new Set([
+			"max_depth",
+			"heading_numbers",
+			"open_levels",
+			"exclude",
+			"figures",
+			"tables",
+			"extra",
+		]);
+		for (const key of Object.keys(outline)) {
+			if (!validOutlineKeys.has(key)) {
+				errors.push({
+					path: `outline.${key}`,
+					message: `Unknown outline key "${key}". Use: ${[...validOutlineKeys].join(", ")}`,
+					value: outline[key as keyof typeof outline],
+				});
+			}
+		}
+
+		if (
+			outline.max_depth !== undefined &&
+			(!Number.isInteger(outline.max_depth) ||
+				outline.max_depth < 1 ||
+				outline.max_depth > 6)
+		) {
+			errors.push({
+				path: "outline.max_depth",
+				message: "max_depth must be a whole number between 1 and 6",
+				value: outline.max_depth,
+			});
+		}
+		if (
+			outline.open_levels !== undefined &&
+			(!Number.isInteger(outline.open_levels) || outline.open_levels < 0)
+		) {
+			errors.push({
+				path: "outline.open_levels",
+				message: "open_levels must be a whole number, 0 or more",
+				value: outline.open_levels,
+			});
+		}
+		if (
+			outline.heading_numbers !== undefined &&
+			typeof outline.heading_numbers !== "boolean"
+		) {
+			errors.push({
+				path: "outline.heading_numbers",
+				message: "heading_numbers should be true or false",
+				value: outline.heading_numbers,
+			});
+		}
+
+		if (outline.exclude !== undefined) {
+			const exclude: unknown[] = Array.isArray(outline.exclude)
+				? outline.exclude
+				: [outline.exclude];
+			for (const value of exclude) {
+				if (!(outlineExcludes as readonly unknown[]).includes(value)) {
+					errors.push({
+						path: "outline.exclude",
+						message: `Invalid outline.exclude value. Use a list of: ${outlineExcludes.join(", ")}`,
+						value,
+					});
+				}
+			}
+		}
+
+		for (const key of ["figures", "tables"] as const) {
+			const value = outline[key];
+			if (
+				value !== undefined &&
+				typeof value !== "boolean" &&
+				typeof value !== "string"
+			) {
+				errors.push({
+					path: `outline.${key}`,
+					message: `${key} should be true, false or a bookmark title`,
+					value,
+				});
+			}
+		}
+
+		if (outline.extra !== undefined) {
+			const extra: unknown[] = Array.isArray(outline.extra)
+				? outline.extra
+				: [outline.extra];
+			for (const [index, bookmark] of extra.entries()) {
+				const { title, target } = (bookmark ?? {}) as Record<string, unknown>;
+				if (typeof title !== "string" || typeof target !== "string") {
+					errors.push({
+						path: `outline.extra[${index}]`,
+						message:
+							"Bookmarks need a title and a target (a heading, figure or anchor id)",
+						value: bookmark,
+					});
+				}
+			}
+		}
+	}
+
 	return errors;
 }
 
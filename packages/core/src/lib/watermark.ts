@@ -0,0 +1,300 @@
+/**
+ * Watermarks for mdforge.
+ *
+ * Text or image watermarks are drawn onto the pages of the generated PDF
+ * with pdf-lib, after Puppeteer rendered it. This gives real transparency
+ * and works the same regardless of how headers/footers were rendered.
+ */
+
+import { promises as fs } from "node:fs";
+import { extname } from "node:path";
+import {
+	degrees,
+	PDFDocument,
+	type PDFFont,
+	type PDFImage,
+	type PDFPage,
+	rgb,
+	StandardFonts,
+} from "@folknor/pdf-lib";
+import { ConfigError } from "./errors.js";
+
+/**
+ * Watermark positions
+ */
+export const watermarkPositions = [
+	"center",
+	"top-left",
+	"top-right",
+	"bottom-left",
+	"bottom-right",
+	"tiled",
+] as const;
+export type WatermarkPosition = (typeof watermarkPositions)[number];
+
+/**
+ * Watermark configuration.
+ *
+ * @example
+ * ```yaml
+ * watermark: DRAFT               # text with defaults
+ *
+ * watermark:
+ *   text: CONFIDENTIAL           # or image: stamp.png
+ *   opacity: 0.3                 # 0-1
+ *   angle: -45                   # degrees, -45 is bottom-left to top-right
+ *   color: "#ff0000"             # hex or name (gray, red, blue, ...)
+ *   size: 72                     # points, or "50%" of the page width
+ *   position: center             # center, top-left, top-right, bottom-left, bottom-right, tiled
+ *   pages: "1-3, 5"              # page ranges, default: all pages
+ * ```
+ */
+export interface WatermarkConfig {
+	/** Watermark text */
+	text?: string;
+	/** PNG or JPEG image path (relative to the markdown file) */
+	image?: string;
+	/** Opacity from 0 (invisible) to 1. Default: 0.3 for text, 0.15 for images */
+	opacity?: number;
+	/** Rotation in degrees, negative is clockwise. Default: -45 for text, 0 for images */
+	angle?: number;
+	/** Text color, hex or a basic color name. Default: "gray" */
+	color?: string;
+	/**
+	 * Font size in points for text, width in points for images.
+	 * A percentage string ("50%") is relative to the page width.
+	 * Default: 72 for text, "50%" for images
+	 */
+	size?: number | string;
+	/** Where to draw the watermark. Default: "center" */
+	position?: WatermarkPosition;
+	/** Page ranges to watermark, e.g. "1", "2-5", "1, 3-", default: all pages */
+	pages?: string;
+}
+
+/**
+ * Basic color names for watermark text
+ */
+const COLOR_NAMES: Record<string, string> = {
+	black: "#000000",
+	gray: "#808080",
+	grey: "#808080",
+	silver: "#c0c0c0",
+	white: "#ffffff",
+	red: "#ff0000",
+	green: "#008000",
+	blue: "#0000ff",
+	orange: "#ffa500",
+	yellow: "#ffff00",
+	purple: "#800080",
+};
+
+/**
+ * Distance from the page edge for corner positions (in points)
+ */
+const EDGE_MARGIN = 36;
+
+/**
+ * Parse a hex color (#rgb or #rrggbb) or color name to pdf-lib RGB
+ */
+function parseColor(color: string): ReturnType<typeof rgb> {
+	const hex = COLOR_NAMES[color.toLowerCase()] ?? color;
+	const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex);
+	if (!match?.[1]) {
+		throw new Error(
+			`Invalid watermark color "${color}". Use a hex color or one of: ${Object.keys(COLOR_NAMES).join(", ")}`,
+		);
+	}
+	const digits =
+		match[1].length === 3 ? [...match[1]].map((d) => d + d).join("") : match[1];
+	const value = Number.parseInt(digits, 16);
+	return rgb(
+		((value >> 16) & 255) / 255,
+		((value >> 8) & 255) / 255,
+		(value & 255) / 255,
+	);
+}
+
+/**
+ * Resolve a size in points or percentage of the page width
+ */
+function resolveSize(size: number | string, pageWidth: number): number {
+	if (typeof size === "number") return size;
+	const percent = /^(\d+(?:\.\d+)?)%$/.exec(size.trim());
+	if (percent?.[1]) return (pageWidth * Number(percent[1])) / 100;
+	return Number.parseFloat(size);
+}
+
+/**
+ * Parse page ranges like "1-3, 5, 8-" into a set of 0-based page indices
+ */
+function parsePageRanges(ranges: string, pageCount: number): Set<number> {
+	const pages = new Set<number>();
+	for (const part of ranges.split(",")) {
+		const match = /^\s*(\d+)?\s*(-)?\s*(\d+)?\s*$/.exec(part);
+		if (!(match && (match[1] || match[3]))) {
+			throw new Error(`Invalid watermark page range "${part.trim()}"`);
+		}
+		const from = match[1] ? Number(match[1]) : 1;
+		const to = match[2] ? (match[3] ? Number(match[3]) : pageCount) : from;
+		for (let page = from; page <= Math.min(to, pageCount); page++) {
+			pages.add(page - 1);
+		}
+	}
+	return pages;
+}
+
+/**
+ * Get the centers to draw at for a position on a page.
+ * Width/height are of the rotated bounding box, so corners stay on the page.
+ */
+function getCenters(
+	position: WatermarkPosition,
+	page: { width: number; height: number },
+	box: { width: number; height: number },
+): Array<{ x: number; y: number }> {
+	const left = EDGE_MARGIN + box.width / 2;
+	const right = page.width - EDGE_MARGIN - box.width / 2;
+	const bottom = EDGE_MARGIN + box.height / 2;
+	const top = page.height - EDGE_MARGIN - box.height / 2;
+
+	switch (position) {
+		case "top-left":
+			return [{ x: left, y: top }];
+		case "top-right":
+			return [{ x: right, y: top }];
+		case "bottom-left":
+			return [{ x: left, y: bottom }];
+		case "bottom-right":
+			return [{ x: right, y: bottom }];
+		case "tiled": {
+			// Grid with half a watermark of space between tiles
+			const stepX = box.width * 1.5;
+			const stepY = box.height * 1.5;
+			const centers: Array<{ x: number; y: number }> = [];
+			for (let y = stepY / 2; y < page.height + stepY / 2; y += stepY) {
+				for (let x = stepX / 2; x < page.width + stepX / 2; x += stepX) {
+					centers.push({ x, y });
+				}
+			}
+			return centers;
+		}
+		default:
+			return [{ x: page.width / 2, y: page.height / 2 }];
+	}
+}
+
+/**
+ * What to draw: text with an embedded font, or an embedded image
+ */
+type WatermarkMark =
+	| { type: "text"; text: string; font: PDFFont }
+	| { type: "image"; image: PDFImage };
+
+/**
+ * Draw a (rotated) watermark centered on each position.
+ * pdf-lib rotates around the draw origin, so the origin is offset to keep
+ * the center of the watermark in place.
+ */
+function drawWatermark(
+	page: PDFPage,
+	mark: WatermarkMark,
+	config: WatermarkConfig,
+): void {
+	const { width: pageWidth, height: pageHeight } = page.getSize();
+	const isText = mark.type === "text";
+	const angle = config.angle ?? (isText ? -45 : 0);
+	const size = resolveSize(config.size ?? (isText ? 72 : "50%"), pageWidth);
+	const opacity = config.opacity ?? (isText ? 0.3 : 0.15);
+	const rotate = degrees(-angle);
+
+	// pdf-lib rotates counter-clockwise, our angle is clockwise like CSS
+	const radians = (-angle * Math.PI) / 180;
+	const cos = Math.cos(radians);
+	const sin = Math.sin(radians);
+
+	const width =
+		mark.type === "text" ? mark.font.widthOfTextAtSize(mark.text, size) : size;
+	const height =
+		mark.type === "text"
+			? mark.font.heightAtSize(size, { descender: false })
+			: (size / mark.image.width) * mark.image.height;
+
+	const box = {
+		width: Math.abs(width * cos) + Math.abs(height * sin),
+		height: Math.abs(width * sin) + Math.abs(height * cos),
+	};
+
+	for (const center of getCenters(
+		config.position ?? "center",
+		{ width: pageWidth, height: pageHeight },
+		box,
+	)) {
+		const x = center.x - ((width / 2) * cos - (height / 2) * sin);
+		const y = center.y - ((width / 2) * sin + (height / 2) * cos);
+
+		if (mark.type === "text") {
+			page.drawText(mark.text, {
+				x,
+				y,
+				size,
+				font: mark.font,
+				color: parseColor(config.color ?? "gray"),
+				opacity,
+				rotate,
+			});
+		} else {
+			page.drawImage(mark.image, { x, y, width, height, opacity, rotate });
+		}
+	}
+}
+
+/**
+ * Draw a watermark onto the pages of a PDF buffer
+ */
+export async function addWatermark(
+	pdfBuffer: Buffer,
+	config: WatermarkConfig,
+): Promise<Buffer> {
+	const pdfDoc = await PDFDocument.load(pdfBuffer);
+
+	let mark: WatermarkMark;
+	if (config.image) {
+		const imageData = await fs.readFile(config.image);
+		const ext = extname(config.image).toLowerCase();
+		if (ext === ".png") {
+			mark = { type: "image", image: await pdfDoc.embedPng(imageData) };
+		} else if (ext === ".jpg" || ext === ".jpeg") {
+			mark = { type: "image", image: await pdfDoc.embedJpg(imageData) };
+		} else {
+			throw new Error(`Watermark image must be PNG or JPEG: ${config.image}`);
+		}
+	} else if (config.text) {
+		const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+		// The standard fonts are not embedded and only have WinAnsi characters
+		try {
+			font.encodeText(config.text);
+		} catch {
+			throw new ConfigError(
+				`Watermark text "${config.text}" has characters that the watermark font can't show. Use Latin characters, or an image watermark`,
+			);
+		}
+		mark = { type: "text", text: config.text, font };
+	} else {
+		return pdfBuffer;
+	}
+
+	const pages = pdfDoc.getPages();
+	const selected = config.pages
+		? parsePageRanges(config.pages, pages.length)
+		: undefined;
+
+	for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+		const page = pages[pageIndex];
+		if (!page || (selected && !selected.has(pageIndex))) continue;
+		drawWatermark(page, mark, config);
+	}
+
+	const modifiedPdf = await pdfDoc.save();
+	return Buffer.from(modifiedPdf);
+}
@@ -1,25 +1,107 @@
 import GithubSlugger from "github-slugger";
+import { pageRefHtml } from "./page-refs.js";
 import { cleanForSlug } from "./slugger.js";
+import { formatSourceLine, type SourceLine } from "./source-lines.js";
+import { escapeHtml } from "./util.js";
 
 /**
  * Cross-reference processing for mdforge.
  *
  * @see(Section Name) → [Section Name](#section-name)
+ * @see(Section Name){number} → 3.2 (heading number, with heading_numbers)
+ * @see(Section Name){page} → 14 (page the section starts on)
  * @anchor(Custom Point) → <a id="custom-point"></a>
  *
  * Uses the same slug logic as heading IDs for consistency.
  */
 
 /**
- * Regex to match @see(...) references (not inside backticks)
+ * Regex to match @see(...) references (not inside backticks), with an
+ * optional {number} or {page} form.
+ * Equation, figure and table references, @see(eq:label), @see(fig:label)
+ * and @see(tbl:label), are resolved by the math and captions extensions.
  */
-const XREF_REGEX = /(?<!`)@see\(([^)]+)\)/g;
+const XREF_REGEX =
+	/(?<!`)@see\((?!(?:eq|fig|tbl):)([^)]+)\)(?:\{(number|page)\})?/g;
+
+/**
+ * Regex to match equation, figure and table references: @see(eq:label)
+ */
+const LABEL_REF_REGEX = /(?<!`)@see\(((?:eq|fig|tbl):[\w.:-]+)\)/g;
+
+/**
+ * Regex to match the label prefix of an equation, figure or table
+ */
+const LABEL_PREFIX_REGEX = /^(eq|fig|tbl):/;
 
 /**
  * Regex to match @anchor(...) definitions (not inside backticks)
  */
 const ANCHOR_REGEX = /(?<!`)@anchor\(([^)]+)\)/g;
 
+/**
+ * Regex to match id attributes in the HTML
+ */
+const ID_REGEX = /\bid="([^"]+)"/g;
+
+/**
+ * Regex to match a numbered heading in the HTML
+ */
+const NUMBERED_HEADING_REGEX = /<h[1-6] id="([^"]+)" data-number="([^"]+)">/g;
+
+/**
+ * Regex to match a {number} cross-reference in the HTML: slug, reference
+ * index, section name
+ */
+const NUMBER_XREF_REGEX =
+	/<a href="#([^"]+)" class="xref xref-number" data-xref="(\d+)">([^<]*)<\/a>/g;
+
+/**
+ * Regex to match an equation, figure or table reference without a target,
+ * rendered with "??" by the math and captions extensions
+ */
+const UNRESOLVED_REF_REGEX =
+	/<a href="#((?:eq|fig|tbl):[^"]+)" class="(?:equation|caption)-ref">[^<]*\?\?[^<]*<\/a>/g;
+
+/**
+ * Names of the labeled elements, by label prefix
+ */
+const LABEL_KINDS: Record<string, string> = {
+	eq: "equation",
+	fig: "figure",
+	tbl: "table",
+};
+
+/**
+ * A @see reference in the markdown
+ */
+export interface XrefReference {
+	/** Section or anchor name, or equation, figure or table label */
+	name: string;
+	/** Id of the target: slug of the name, or the label */
+	slug: string;
+	/** Source line for warnings, e.g. "line 12" (see formatSourceLine) */
+	line: string;
+}
+
+/**
+ * Result of processing cross-references in the markdown
+ */
+export interface XrefReferences {
+	content: string;
+	/** The @see references, in document order */
+	references: XrefReference[];
+}
+
+/**
+ * Result of resolving cross-references in the HTML
+ */
+export interface XrefResult {
+	content: string;
+	/** References to sections or anchors that don't exist */
+	warnings: string[];
+}
+
 /**
  * Generate a slug from section name using same logic as heading IDs
  */
@@ -32,21 +114,118 @@ function generateSlug(sectionName: string): string {
  * Process cross-references and anchors in markdown content.
  * - @see Section Name → [Section Name](#section-name)
  * - @anchor Custom Point → <a id="custom-point"></a>
+ *
+ * The references are returned too, with their source lines: their targets
+ * are checked in the rendered HTML (see resolveXrefNumbers), which has the
+ * ids of all headings, setext ones included.
  */
-export function processXref(content: string): string {
+export function processXref(
+	content: string,
+	lines?: SourceLine[],
+): XrefReferences {
+	const references: XrefReference[] = [];
+
 	// Process @anchor definitions first
-	let result = content.replace(ANCHOR_REGEX, (_match, anchorName: string) => {
-		const trimmed = anchorName.trim();
-		const slug = generateSlug(trimmed);
-		return `<a id="${slug}"></a>`;
-	});
-
-	// Process @see references
-	result = result.replace(XREF_REGEX, (_match, sectionName: string) => {
-		const trimmed = sectionName.trim();
-		const slug = generateSlug(trimmed);
-		return `[${trimmed}](#${slug})`;
-	});
-
-	return result;
+	const anchored = content.replace(
+		ANCHOR_REGEX,
+		(_match, anchorName: string) => {
+			const trimmed = anchorName.trim();
+			const slug = generateSlug(trimmed);
+			return `<a id="${slug}"></a>`;
+		},
+	);
+
+	// Process @see references line by line, for their source lines
+	const result = anchored
+		.split("\n")
+		.map((text, index) => {
+			const line = formatSourceLine(lines, index);
+
+			// Equation, figure and table references are left to their extensions
+			for (const [, label = ""] of text.matchAll(LABEL_REF_REGEX)) {
+				references.push({ name: label, slug: label, line });
+			}
+
+			return text.replace(
+				XREF_REGEX,
+				(_match, sectionName: string, form: string | undefined) => {
+					const trimmed = sectionName.trim();
+					const slug = generateSlug(trimmed);
+					const reference = references.push({ name: trimmed, slug, line }) - 1;
+
+					// {number} is filled in after rendering, see resolveXrefNumbers
+					if (form === "number") {
+						return `<a href="#${slug}" class="xref xref-number" data-xref="${reference}">${escapeHtml(trimmed)}</a>`;
+					}
+					if (form === "page") {
+						return `<a href="#${slug}" class="xref xref-page">${pageRefHtml(slug)}</a>`;
+					}
+					return `[${trimmed}](#${slug})`;
+				},
+			);
+		})
+		.join("\n");
+
+	return { content: result, references };
+}
+
+/**
+ * Replace @see(...){number} references with the numbers of their headings
+ * in the rendered HTML. References to unnumbered headings keep the section
+ * name, with a warning. References to sections or anchors that don't
+ * exist, and equation, figure and table references without a target, are
+ * reported too, with their source lines.
+ */
+export function resolveXrefNumbers(
+	html: string,
+	references: XrefReference[],
+): XrefResult {
+	const ids = new Set(Array.from(html.matchAll(ID_REGEX), ([, id]) => id));
+	const warnings = references
+		.filter(
+			({ name, slug }) => !(LABEL_PREFIX_REGEX.test(name) || ids.has(slug)),
+		)
+		.map(
+			({ name, line }) =>
+				`Cross-reference: no section or anchor "${name}" on ${line}`,
+		);
+	const numbers = new Map(
+		Array.from(html.matchAll(NUMBERED_HEADING_REGEX), ([, id, number]) => [
+			id,
+			number,
+		]),
+	);
+
+	const content = html.replace(
+		NUMBER_XREF_REGEX,
+		(_match, slug: string, index: string, name: string) => {
+			const number = numbers.get(slug);
+			if (number !== undefined) {
+				return `<a href="#${slug}" class="xref xref-number">${number}</a>`;
+			}
+
+			// Missing targets are reported above
+			const reference = references[Number(index)];
+			if (reference && ids.has(slug)) {
+				warnings.push(
+					`Cross-reference: section "${name}" has no number on ${reference.line} (see heading_numbers)`,
+				);
+			}
+			return `<a href="#${slug}" class="xref xref-number">${name}</a>`;
+		},
+	);
+
+	const unresolved = new Set(
+		Array.from(content.matchAll(UNRESOLVED_REF_REGEX), ([, label]) => label),
+	);
+	for (const { name, line } of references) {
+		const prefix = LABEL_PREFIX_REGEX.exec(name)?.[1];
+		if (prefix && unresolved.has(name)) {
+			warnings.push(
+				`Cross-reference: no ${LABEL_KINDS[prefix]} "${name}" on ${line}`,
+			);
+		}
+	}
+
+	return { content, warnings };
 }